@@ -1,4 +1,4 @@
-import { RecursiveSet, RecursiveMap, Tuple } from "recursive-set";
+import { RecursiveSet, RecursiveMap, Tuple, Structural, Value } from "recursive-set";
 
 type State = string | number;
 
@@ -26,6 +26,18 @@ type DFA = {
     A: RecursiveSet<DFAState>;
 };
 
+/**
+ * Interface representing any deterministic automaton.
+ * S is the type of the state (e.g. number, Set<number>, Set<Set<number>>).
+ */
+interface GenericDFA<S extends Value> {
+    Q: RecursiveSet<S>;
+    Σ: RecursiveSet<Char>;
+    δ: RecursiveMap<Tuple<[S, Char]>, S>;
+    q0: S;
+    A: RecursiveSet<S>;
+}
+
 const bigUnion = (M: RecursiveSet<DFAState>): DFAState => {
     const res = new RecursiveSet<State>();
     for (const A of M) for (const x of A) res.add(x);
@@ -69,30 +81,129 @@ const capitalDelta = (M: DFAState, c: Char, δ: TransRel): DFAState => {
     return bigUnion(sets);
 };
 
-const allStates = (Q0: DFAState, δ: TransRel, Σ: RecursiveSet<Char>): RecursiveSet<DFAState> => {
-    let Res = new RecursiveSet(Q0);
-    while (true) {
-        const New = new RecursiveSet<DFAState>();
-        for (const M of Res) {
-            for (const c of Σ) {
-                New.add(capitalDelta(M, c, δ));
+/**
+ * What to do with dead states, i.e. states from which no accepting state
+ * can be reached: "keep" them so that the automaton stays total, or
+ * "remove" them and accept a partial transition function instead.
+ */
+type DeadStatePolicy = "keep" | "remove";
+
+/**
+ * Computes the set of states from which no accepting state is reachable.
+ */
+function deadStates<S extends Structural>(F: GenericDFA<S>): RecursiveSet<S> {
+    const predecessors = new RecursiveMap<S, S[]>();
+    for (const [key, q] of F.δ) {
+        predecessors.set(q, [...(predecessors.get(q) ?? []), key.get(0)]);
+    }
+
+    const live = new RecursiveSet<S>();
+    const queue = [...F.A].filter(q => F.Q.has(q));
+    for (const q of queue) live.add(q);
+    for (let i = 0; i < queue.length; i++) {
+        for (const p of predecessors.get(queue[i]) ?? []) {
+            if (!live.has(p)) {
+                live.add(p);
+                queue.push(p);
             }
         }
-        if (New.isSubset(Res)) return Res;
-        Res = Res.union(New);
     }
+    return F.Q.difference(live);
+}
+
+/**
+ * Removes all dead states together with their transitions. If even the
+ * start state is dead, the result is the one-state automaton for ∅.
+ */
+function removeDeadStates<S extends Structural>(F: GenericDFA<S>): GenericDFA<S> {
+    const dead = deadStates(F);
+    if (dead.isEmpty()) return F;
+
+    const Q = F.Q.difference(dead);
+    if (dead.has(F.q0)) Q.add(F.q0);
+
+    const δ = new RecursiveMap<Tuple<[S, Char]>, S>();
+    for (const [key, q] of F.δ) {
+        if (!dead.has(key.get(0)) && !dead.has(q)) δ.set(key, q);
+    }
+    return { Q, Σ: F.Σ, δ, q0: F.q0, A: F.A.intersection(Q) };
+}
+
+/**
+ * One step of the subset construction, as reported to SubsetOptions.onStep:
+ * - "start":    the start state of the DFA,
+ * - "delta":    the computation of Δ(from, c) = to,
+ * - "discover": a subset that has not been seen before becomes a new state.
+ */
+type SubsetEvent =
+    | { kind: "start"; state: DFAState }
+    | { kind: "delta"; from: DFAState; c: Char; to: DFAState }
+    | { kind: "discover"; state: DFAState };
+
+type SubsetOptions = {
+    /** abort the construction once more DFA states than this are discovered */
+    maxStates?: number;
+    /** "keep" (default) the empty set as an explicit dead state, or "remove" all dead states */
+    deadState?: DeadStatePolicy;
+    /** start from the ε-closure of these states instead of the ε-closure of q0 */
+    start?: RecursiveSet<State>;
+    /** called for every step, e.g. to animate the construction */
+    onStep?: (event: SubsetEvent) => void;
 };
 
-const nfa2dfa = (nfa: NFA): DFA => {
+/**
+ * Worklist variant of the subset construction: only subsets reachable from
+ * the start state are explored, and every subset and every transition is
+ * computed exactly once. ε-closures are cached per NFA state. The subsets
+ * are processed in the order they are discovered, the characters in sorted
+ * order.
+ */
+const nfa2dfa = (nfa: NFA, options: SubsetOptions = {}): DFA => {
     const { Σ, δ, q0, A } = nfa;
-    const start = epsClosure(q0, δ);
-    const Q_DFA = allStates(start, δ, Σ);
-    
+    const { maxStates, deadState = "keep", start: startStates, onStep } = options;
+    const sortedSigma = [...Σ].sort();
+
+    const closures = new Map<State, DFAState>();
+    const closure = (q: State): DFAState => {
+        let C = closures.get(q);
+        if (C === undefined) {
+            C = epsClosure(q, δ);
+            closures.set(q, C);
+        }
+        return C;
+    };
+
+    const step = (M: DFAState, c: Char): DFAState => {
+        const res = new RecursiveSet<State>();
+        for (const q of M) {
+            const targets = δ.get(new Tuple(q, c));
+            if (targets) for (const p of targets) for (const r of closure(p)) res.add(r);
+        }
+        return res;
+    };
+
+    const start = startStates === undefined ? closure(q0) : new RecursiveSet<State>();
+    if (startStates !== undefined) for (const q of startStates) for (const r of closure(q)) start.add(r);
+    const Q_DFA = new RecursiveSet<DFAState>(start);
     const δ_DFA = new RecursiveMap<Tuple<[DFAState, Char]>, DFAState>();
-    
-    for (const M of Q_DFA) {
-        for (const c of Σ) {
-            δ_DFA.set(new Tuple(M, c), capitalDelta(M, c, δ));
+    const worklist: DFAState[] = [start];
+    onStep?.({ kind: "start", state: start });
+
+    for (let i = 0; i < worklist.length; i++) {
+        const M = worklist[i];
+        for (const c of sortedSigma) {
+            const N = step(M, c);
+            δ_DFA.set(new Tuple(M, c), N);
+            onStep?.({ kind: "delta", from: M, c, to: N });
+            if (Q_DFA.has(N)) continue;
+            if (maxStates !== undefined && Q_DFA.size >= maxStates) {
+                throw new Error(
+                    `Subset construction exceeded the budget of ${maxStates} DFA states`,
+                );
+            }
+            Q_DFA.add(N);
+            worklist.push(N);
+            onStep?.({ kind: "discover", state: N });
         }
     }
 
@@ -101,7 +212,11 @@ const nfa2dfa = (nfa: NFA): DFA => {
         if (!M.intersection(A).isEmpty()) A_DFA.add(M);
     }
 
-    return { Q: Q_DFA, Σ, δ: δ_DFA, q0: start, A: A_DFA };
+    const dfa: DFA = { Q: Q_DFA, Σ, δ: δ_DFA, q0: start, A: A_DFA };
+    return deadState === "remove" ? removeDeadStates(dfa) : dfa;
 };
 
-export { Char, State, DFAState, NFA, DFA, nfa2dfa, TransRel, TransRelDet }
+export {
+    Char, State, DFAState, NFA, DFA, GenericDFA, nfa2dfa, SubsetOptions, SubsetEvent, TransRel, TransRelDet, epsClosure, capitalDelta,
+    DeadStatePolicy, deadStates, removeDeadStates
+}
\ No newline at end of file
@@ -1,5 +1,5 @@
-import { RecursiveSet, RecursiveMap, Tuple } from "recursive-set";
-import { DFA, DFAState, State, Char, TransRelDet } from "./01-NFA-2-DFA";
+import { RecursiveSet, RecursiveMap, Tuple, Structural } from "recursive-set";
+import { Char } from "./01-NFA-2-DFA";
 import {
     RegExp,
     EmptySet,
@@ -9,6 +9,8 @@ import {
     Concat,
     Union
 } from "./03-RegExp-2-NFA";
+import { simplify } from "./Rewrite";
+import { GenericDFA } from "./FSM-2-Dot";
 
 function regexpSum(S: RecursiveSet<RegExp> | RegExp[]): RegExp {
     const [head, ...tail] = S instanceof RecursiveSet ? [...S] : S;
@@ -17,24 +19,242 @@ function regexpSum(S: RecursiveSet<RegExp> | RegExp[]): RegExp {
     return new Union(head, regexpSum(tail));
 }
 
-function rpq( p1: DFAState, p2: DFAState, Sigma: RecursiveSet<Char>, delta: TransRelDet, Allowed: readonly DFAState[] ): RegExp {
+// ============================================================================
+// 1. KLEENE'S RECURSIVE FORMULA (reference implementation for teaching)
+// ============================================================================
+
+type RpqMemo<S extends Structural> = RecursiveMap<Tuple<[S, S, number]>, RegExp>;
+
+/**
+ * rpq(p1, p2, Allowed) describes all words leading from p1 to p2 that only
+ * pass through states in Allowed. Since Allowed is always a suffix of the
+ * same list, its length identifies it and serves as part of the memo key.
+ */
+function rpq<S extends Structural>( p1: S, p2: S, Sigma: RecursiveSet<Char>, delta: RecursiveMap<Tuple<[S, Char]>, S>, Allowed: readonly S[], memo: RpqMemo<S> ): RegExp {
+    const key = new Tuple(p1, p2, Allowed.length);
+    const known = memo.get(key);
+    if (known !== undefined) return known;
+
+    let result: RegExp;
     if (Allowed.length === 0) {
         const allChars = [...Sigma]
             .filter(c => delta.get(new Tuple(p1, c))?.equals(p2))
             .map(c => new CharNode(c));
         const r = regexpSum(allChars);
-        return p1.equals(p2) ? new Union(new Epsilon(), r) : r;
+        result = p1.equals(p2) ? new Union(new Epsilon(), r) : r;
+    } else {
+        const [q, ...rest] = Allowed;
+        const rp1p2 = rpq(p1, p2, Sigma, delta, rest, memo);
+        const rp1q  = rpq(p1, q,  Sigma, delta, rest, memo);
+        const rqq   = rpq(q,  q,  Sigma, delta, rest, memo);
+        const rqp2  = rpq(q,  p2, Sigma, delta, rest, memo);
+        result = new Union(rp1p2, new Concat(new Concat(rp1q, new Star(rqq)), rqp2));
     }
-    const [q, ...rest] = Allowed;
-    const rp1p2 = rpq(p1, p2, Sigma, delta, rest);
-    const rp1q  = rpq(p1, q,  Sigma, delta, rest);
-    const rqq   = rpq(q,  q,  Sigma, delta, rest);
-    const rqp2  = rpq(q,  p2, Sigma, delta, rest);    
-    return new Union(rp1p2, new Concat(new Concat(rp1q, new Star(rqq)), rqp2));
+    memo.set(key, result);
+    return result;
 }
 
-function dfa2regexp(F: DFA): RegExp {
-    return regexpSum([...F.A].map(p => rpq(F.q0, p, F.Σ, F.δ, [...F.Q])));
+function dfa2regexpRpq<S extends Structural>(F: GenericDFA<S>): RegExp {
+    const memo: RpqMemo<S> = new RecursiveMap();
+    return regexpSum([...F.A].map(p => rpq(F.q0, p, F.Σ, F.δ, [...F.Q], memo)));
 }
 
-export {dfa2regexp}
\ No newline at end of file
+// ============================================================================
+// 2. STATE ELIMINATION (GNFA)
+// ============================================================================
+
+/**
+ * What a heuristic gets to see of a state that could be eliminated next:
+ * the labels of its incoming and outgoing edges and of its self loop.
+ */
+type EliminationCandidate = {
+    incoming: RegExp[];
+    outgoing: RegExp[];
+    loop: RegExp | undefined;
+};
+
+/** Smaller is better; ties are broken by the sorted order of the states. */
+type EliminationHeuristic = (candidate: EliminationCandidate) => number;
+
+function size(r: RegExp): number {
+    if (r instanceof Star) return 1 + size(r.inner);
+    if (r instanceof Concat || r instanceof Union) return 1 + size(r.left) + size(r.right);
+    return 1;
+}
+
+const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+
+const heuristics: Record<"given" | "degree" | "weight", EliminationHeuristic> = {
+    // eliminate the states in the order of dfa2dot's state names
+    given: () => 0,
+    // number of new edges the elimination creates
+    degree: ({ incoming, outgoing }) => incoming.length * outgoing.length,
+    // growth of the total label size (Han & Wood)
+    weight: ({ incoming, outgoing, loop }) => {
+        const nIn = incoming.length, nOut = outgoing.length;
+        const sizeIn = sum(incoming.map(size)), sizeOut = sum(outgoing.map(size));
+        const sizeLoop = loop ? size(loop) : 0;
+        return sizeIn * (nOut - 1) + sizeOut * (nIn - 1) + sizeLoop * (nIn * nOut - 1);
+    },
+};
+
+/**
+ * A generalized NFA whose edges are labelled with regular expressions.
+ * States are numbered; there is at most one edge between two states.
+ */
+class GNFA {
+    private out = new Map<number, Map<number, RegExp>>();
+    private inc = new Map<number, Set<number>>();
+
+    constructor(private normalize: (r: RegExp) => RegExp) {}
+
+    label(p: number, q: number): RegExp | undefined {
+        return this.out.get(p)?.get(q);
+    }
+
+    add(p: number, q: number, r: RegExp): void {
+        const old = this.label(p, q);
+        const label = old === undefined ? r : new Union(old, r);
+        if (!this.out.has(p)) this.out.set(p, new Map());
+        if (!this.inc.has(q)) this.inc.set(q, new Set());
+        this.out.get(p)!.set(q, label);
+        this.inc.get(q)!.add(p);
+    }
+
+    candidate(k: number): EliminationCandidate {
+        const incoming = [...(this.inc.get(k) ?? [])]
+            .filter(p => p !== k).map(p => this.label(p, k)!);
+        const outgoing = [...(this.out.get(k)?.entries() ?? [])]
+            .filter(([q]) => q !== k).map(([, r]) => r);
+        return { incoming, outgoing, loop: this.label(k, k) };
+    }
+
+    /**
+     * Removes k and replaces every path p → k → q by an edge labelled
+     * r(p,k) r(k,k)* r(k,q). New labels are normalized right away.
+     */
+    eliminate(k: number): void {
+        const loop = this.label(k, k);
+        const preds = [...(this.inc.get(k) ?? [])].filter(p => p !== k);
+        const succs = [...(this.out.get(k)?.keys() ?? [])].filter(q => q !== k);
+
+        for (const p of preds) {
+            for (const q of succs) {
+                const middle = loop === undefined
+                    ? this.label(p, k)!
+                    : new Concat(this.label(p, k)!, new Star(loop));
+                this.add(p, q, new Concat(middle, this.label(k, q)!));
+                this.out.get(p)!.set(q, this.normalize(this.label(p, q)!));
+            }
+        }
+
+        for (const p of preds) this.out.get(p)!.delete(k);
+        for (const q of succs) this.inc.get(q)!.delete(k);
+        this.out.delete(k);
+        this.inc.delete(k);
+    }
+}
+
+// States that are reachable from q0 and from which an accepting state can be reached.
+function usefulStates<S extends Structural>(F: GenericDFA<S>): RecursiveSet<S> {
+    const forward = new RecursiveSet<S>(F.q0);
+    const predecessors = new RecursiveMap<S, S[]>();
+    const queue: S[] = [F.q0];
+    for (let i = 0; i < queue.length; i++) {
+        for (const c of F.Σ) {
+            const q = F.δ.get(new Tuple(queue[i], c));
+            if (q === undefined) continue;
+            predecessors.set(q, [...(predecessors.get(q) ?? []), queue[i]]);
+            if (!forward.has(q)) {
+                forward.add(q);
+                queue.push(q);
+            }
+        }
+    }
+
+    const useful = new RecursiveSet<S>();
+    const back = [...F.A].filter(q => forward.has(q));
+    for (const q of back) useful.add(q);
+    for (let i = 0; i < back.length; i++) {
+        for (const p of predecessors.get(back[i]) ?? []) {
+            if (!useful.has(p)) {
+                useful.add(p);
+                back.push(p);
+            }
+        }
+    }
+    return useful;
+}
+
+function dfa2regexpElimination<S extends Structural>(F: GenericDFA<S>, heuristic: EliminationHeuristic): RegExp {
+    const memo = new RecursiveMap<RegExp, RegExp>();
+    const normalize = (r: RegExp): RegExp => {
+        let s = memo.get(r);
+        if (s === undefined) {
+            s = simplify(r);
+            memo.set(r, s);
+        }
+        return s;
+    };
+
+    const states = [...usefulStates(F)].sort(RecursiveSet.compareVisual);
+    const index = new RecursiveMap<S, number>();
+    states.forEach((q, i) => index.set(q, i));
+    const start = states.length, final = states.length + 1;
+
+    const q0 = index.get(F.q0);
+    if (q0 === undefined) return new EmptySet();
+
+    const G = new GNFA(normalize);
+    G.add(start, q0, new Epsilon());
+    const sortedSigma = [...F.Σ].sort();
+    states.forEach((q, i) => {
+        if (F.A.has(q)) G.add(i, final, new Epsilon());
+        for (const c of sortedSigma) {
+            const target = F.δ.get(new Tuple(q, c));
+            const j = target === undefined ? undefined : index.get(target);
+            if (j !== undefined) G.add(i, j, new CharNode(c));
+        }
+    });
+
+    const remaining = states.map((_, i) => i);
+    while (remaining.length > 0) {
+        let best = 0;
+        let bestCost = heuristic(G.candidate(remaining[0]));
+        for (let i = 1; i < remaining.length; i++) {
+            const cost = heuristic(G.candidate(remaining[i]));
+            if (cost < bestCost) {
+                best = i;
+                bestCost = cost;
+            }
+        }
+        G.eliminate(remaining[best]);
+        remaining.splice(best, 1);
+    }
+
+    return normalize(G.label(start, final) ?? new EmptySet());
+}
+
+// ============================================================================
+// 3. ENTRY POINT
+// ============================================================================
+
+type Dfa2RegExpOptions = {
+    /** "elimination" (default) or Kleene's recursive formula "rpq" */
+    method?: "elimination" | "rpq";
+    /** elimination order, either a built-in heuristic or a custom one */
+    order?: keyof typeof heuristics | EliminationHeuristic;
+};
+
+function dfa2regexp<S extends Structural>(F: GenericDFA<S>, options: Dfa2RegExpOptions = {}): RegExp {
+    if (options.method === "rpq") return dfa2regexpRpq(F);
+    const order = options.order ?? "weight";
+    return dfa2regexpElimination(F, typeof order === "function" ? order : heuristics[order]);
+}
+
+export {
+    dfa2regexp,
+    Dfa2RegExpOptions,
+    EliminationCandidate,
+    EliminationHeuristic
+}
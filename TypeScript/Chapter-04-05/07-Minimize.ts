@@ -1,5 +1,6 @@
 import { RecursiveSet, RecursiveMap, Tuple, Value } from "recursive-set";
-import { DFA, DFAState, Char, TransRelDet } from "./01-NFA-2-DFA";
+import { DFA, DFAState, State, Char, TransRelDet, DeadStatePolicy, removeDeadStates } from "./01-NFA-2-DFA";
+import { complete } from "./FSM-Complete";
 
 type MinState = RecursiveSet<DFAState>; 
 type MinTransRel = RecursiveMap<Tuple<[MinState, Char]>, MinState>;
@@ -31,11 +32,6 @@ function separate( Pairs: RecursiveSet<Pair>, States: RecursiveSet<DFAState>, Σ
     return next;
 }
 
-function findEquivalenceClass(p: DFAState, Partition: RecursiveSet<MinState>): MinState {
-    for (const C of Partition) if (C.has(p)) return C;
-    throw new Error(`State ${p} not found in partition`);
-}
-
 function allSeparable( Q: RecursiveSet<DFAState>, A: RecursiveSet<DFAState>, Σ: RecursiveSet<Char>, δ: TransRelDet ): RecursiveSet<Pair> {
     const NonA = Q.difference(A);
     let separable = NonA.cartesianProduct(A).union(A.cartesianProduct(NonA));
@@ -59,11 +55,95 @@ function reachable( q0: DFAState, Σ: RecursiveSet<Char>, δ: TransRelDet ): Rec
     }
 }
 
-function minimize(F: DFA): MinDFA {
-    const Q = reachable(F.q0, F.Σ, F.δ);
-    const A = Q.intersection(F.A); 
+// ============================================================================
+// Hopcroft's Partition Refinement
+// ============================================================================
+
+/**
+ * Computes the coarsest partition of Q that is compatible with A and δ.
+ * States are numbered first so that the refinement loop works on plain
+ * arrays; every block is a list of state indices.
+ */
+function hopcroftPartition( Q: RecursiveSet<DFAState>, A: RecursiveSet<DFAState>, Σ: RecursiveSet<Char>, δ: TransRelDet ): RecursiveSet<MinState> {
+    const states = [...Q];
+    const sigma = [...Σ];
+    const index = new RecursiveMap<DFAState, number>();
+    states.forEach((q, i) => index.set(q, i));
 
-    const Separable = allSeparable(Q, A, F.Σ, F.δ);
+    // pre[k][j] lists all states i with δ(i, sigma[k]) = j
+    const pre: number[][][] = sigma.map(() => states.map(() => []));
+    states.forEach((q, i) => sigma.forEach((c, k) => {
+        const target = δ.get(new Tuple(q, c));
+        const j = target === undefined ? undefined : index.get(target);
+        if (j !== undefined) pre[k][j].push(i);
+    }));
+
+    const blocks: number[][] = [];
+    const blockOf: number[] = new Array(states.length);
+    const accepting = states.map((_, i) => i).filter(i => A.has(states[i]));
+    const rejecting = states.map((_, i) => i).filter(i => !A.has(states[i]));
+    for (const B of [accepting, rejecting]) {
+        if (B.length === 0) continue;
+        for (const i of B) blockOf[i] = blocks.length;
+        blocks.push(B);
+    }
+
+    const worklist: number[] = [];
+    const inWorklist: boolean[] = blocks.map(() => false);
+    if (blocks.length === 2) {
+        const smaller = blocks[0].length <= blocks[1].length ? 0 : 1;
+        worklist.push(smaller);
+        inWorklist[smaller] = true;
+    }
+
+    while (worklist.length > 0) {
+        const S = worklist.pop()!;
+        inWorklist[S] = false;
+        const splitter = [...blocks[S]];
+
+        for (let k = 0; k < sigma.length; k++) {
+            // X = { i | δ(i, c) ∈ splitter }, grouped by the block of i
+            const hits = new Map<number, number[]>();
+            for (const j of splitter) for (const i of pre[k][j]) {
+                const B = blockOf[i];
+                const list = hits.get(B);
+                if (list) list.push(i); else hits.set(B, [i]);
+            }
+
+            for (const [B, inside] of hits) {
+                if (inside.length === blocks[B].length) continue;
+                const marked = new Set(inside);
+                const outside = blocks[B].filter(i => !marked.has(i));
+
+                const N = blocks.length;
+                blocks[B] = outside;
+                blocks.push(inside);
+                inWorklist.push(false);
+                for (const i of inside) blockOf[i] = N;
+
+                if (inWorklist[B]) {
+                    worklist.push(N);
+                    inWorklist[N] = true;
+                } else {
+                    const smaller = inside.length <= outside.length ? N : B;
+                    worklist.push(smaller);
+                    inWorklist[smaller] = true;
+                }
+            }
+        }
+    }
+
+    return new RecursiveSet<MinState>(
+        ...blocks.map(B => new RecursiveSet<DFAState>(...B.map(i => states[i]))),
+    );
+}
+
+// ============================================================================
+// Reference Implementation: Table of Separable Pairs
+// ============================================================================
+
+function pairPartition( Q: RecursiveSet<DFAState>, A: RecursiveSet<DFAState>, Σ: RecursiveSet<Char>, δ: TransRelDet ): RecursiveSet<MinState> {
+    const Separable = allSeparable(Q, A, Σ, δ);
     const Equivalent = Q.cartesianProduct(Q).difference(Separable);
 
     const Partition = new RecursiveSet<MinState>();
@@ -71,8 +151,47 @@ function minimize(F: DFA): MinDFA {
         const equivalentStates = [...Q].filter(p => Equivalent.has(new Tuple(p, q)));
         Partition.add(new RecursiveSet<DFAState>(...equivalentStates));
     }
+    return Partition;
+}
+
+// ============================================================================
+// Quotient Automaton
+// ============================================================================
+
+type MinimizeMethod = "hopcroft" | "pairs";
+
+type MinimizeOptions = {
+    /** "hopcroft" (default) or the quadratic pair table "pairs" */
+    method?: MinimizeMethod;
+    /** "keep" (default) the class of dead states, or "remove" it */
+    deadState?: DeadStatePolicy;
+};
+
+// The empty set unless it is already used as a state.
+function freshSink(Q: RecursiveSet<DFAState>): DFAState {
+    let sink = new RecursiveSet<State>();
+    for (let i = 0; Q.has(sink); i++) sink = new RecursiveSet<State>(`⊥${i}`);
+    return sink;
+}
+
+/**
+ * Partial input automata are completed with a sink state first, so both
+ * methods see a total transition function and compute the same result.
+ */
+function minimize(G: DFA, options: MinimizeOptions = {}): MinDFA {
+    const { method = "hopcroft", deadState = "keep" } = options;
+    const F = complete(G, freshSink(G.Q));
+    const Q = reachable(F.q0, F.Σ, F.δ);
+    const A = Q.intersection(F.A); 
+
+    const Partition = method === "pairs"
+        ? pairPartition(Q, A, F.Σ, F.δ)
+        : hopcroftPartition(Q, A, F.Σ, F.δ);
+
+    const classOf = new RecursiveMap<DFAState, MinState>();
+    for (const C of Partition) for (const q of C) classOf.set(q, C);
 
-    const newQ0 = findEquivalenceClass(F.q0, Partition);
+    const newQ0 = classOf.get(F.q0)!;
     
     const validBlocks = [...Partition].filter(C => A.has(arb(C)));
     const newA = new RecursiveSet<MinState>(...validBlocks);
@@ -83,14 +202,14 @@ function minimize(F: DFA): MinDFA {
         for (const c of F.Σ) {
             const target = F.δ.get(new Tuple(rep, c));
             if (target && Q.has(target)) {
-                const targetBlock = findEquivalenceClass(target, Partition);
-                newDelta.set(new Tuple(C, c), targetBlock);
+                newDelta.set(new Tuple(C, c), classOf.get(target)!);
             }
         }
     }
 
-    return { Q: Partition, Σ: F.Σ, δ: newDelta, q0: newQ0, A: newA };
+    const result: MinDFA = { Q: Partition, Σ: F.Σ, δ: newDelta, q0: newQ0, A: newA };
+    return deadState === "remove" ? removeDeadStates(result) : result;
 }
 
 
-export{minimize}
\ No newline at end of file
+export { minimize, MinDFA, MinState, MinTransRel, MinimizeMethod, MinimizeOptions }
\ No newline at end of file
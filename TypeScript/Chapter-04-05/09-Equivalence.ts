@@ -2,43 +2,94 @@ import { RecursiveSet, RecursiveMap, Tuple, Structural } from "recursive-set";
 import { Char, DFA, nfa2dfa } from "./01-NFA-2-DFA";
 import { RegExp, RegExp2NFA } from "./03-RegExp-2-NFA";
 import { GenericDFA } from "./FSM-2-Dot";
+import { complete } from "./FSM-Complete";
 
 type StatePair<S1 extends Structural, S2 extends Structural> = Tuple<[S1, S2]>;
 type ProductDFA<S1 extends Structural, S2 extends Structural> = GenericDFA<StatePair<S1, S2>>;
 
-function fsm_complement<S1 extends Structural, S2 extends Structural>(
-    F1: GenericDFA<S1>, 
-    F2: GenericDFA<S2>
+type BooleanOp = (inL1: boolean, inL2: boolean) => boolean;
+
+/**
+ * Product construction: the states are the pairs ⟨p1, p2⟩ that are
+ * reachable from ⟨q0_1, q0_2⟩, and a pair is accepting iff
+ * op(p1 ∈ A1, p2 ∈ A2) holds. Both automata have to be total over the
+ * same alphabet, otherwise words would silently get lost; an error is
+ * thrown if they are not.
+ */
+function fsm_product<S1 extends Structural, S2 extends Structural>(
+    F1: GenericDFA<S1>,
+    F2: GenericDFA<S2>,
+    op: BooleanOp,
 ): ProductDFA<S1, S2> {
-    const newStates = F1.Q.cartesianProduct(F2.Q);
-    const newDelta = new RecursiveMap<Tuple<[Tuple<[S1, S2]>, Char]>, Tuple<[S1, S2]>>();
-
-    for (const pair of newStates) {
+    if (!F1.Σ.equals(F2.Σ)) {
+        throw new Error(
+            `Product construction needs a common alphabet, but F1 has Σ = ${F1.Σ} and F2 has Σ = ${F2.Σ}`,
+        );
+    }
+    const Σ = F1.Σ;
+    const q0 = new Tuple(F1.q0, F2.q0);
+    const Q = new RecursiveSet<StatePair<S1, S2>>(q0);
+    const δ = new RecursiveMap<Tuple<[StatePair<S1, S2>, Char]>, StatePair<S1, S2>>();
+    const queue: StatePair<S1, S2>[] = [q0];
+
+    for (let i = 0; i < queue.length; i++) {
+        const pair = queue[i];
         const p1 = pair.get(0);
         const p2 = pair.get(1);
 
-        for (const c of F1.Σ) {
+        for (const c of Σ) {
             const next1 = F1.δ.get(new Tuple(p1, c));
             const next2 = F2.δ.get(new Tuple(p2, c));
-
-            if (next1 && next2) {
-                const nextPair = new Tuple(next1, next2);
-                newDelta.set(new Tuple(pair, c), nextPair);
+            if (next1 === undefined || next2 === undefined) {
+                const [name, p] = next1 === undefined ? ["F1", p1] : ["F2", p2];
+                throw new Error(
+                    `Product construction needs total automata, but δ(${p}, ${c}) is undefined in ${name}; make it total with complete(${name}, sink) first`,
+                );
+            }
+            const nextPair = new Tuple(next1, next2);
+            δ.set(new Tuple(pair, c), nextPair);
+            if (!Q.has(nextPair)) {
+                Q.add(nextPair);
+                queue.push(nextPair);
             }
         }
     }
 
-    const startPair = new Tuple(F1.q0, F2.q0);
-    const diffSet = F2.Q.difference(F2.A);
-    const newAccepting = F1.A.cartesianProduct(diffSet);
+    const A = new RecursiveSet<StatePair<S1, S2>>();
+    for (const pair of Q) {
+        if (op(F1.A.has(pair.get(0)), F2.A.has(pair.get(1)))) A.add(pair);
+    }
 
-    return {
-        Q: newStates,
-        Σ: F1.Σ, 
-        δ: newDelta,
-        q0: startPair,
-        A: newAccepting,
-    };
+    return { Q, Σ, δ, q0, A };
+}
+
+// L(F1) ∪ L(F2)
+function fsm_union<S1 extends Structural, S2 extends Structural>(F1: GenericDFA<S1>, F2: GenericDFA<S2>): ProductDFA<S1, S2> {
+    return fsm_product(F1, F2, (a, b) => a || b);
+}
+
+// L(F1) ∩ L(F2)
+function fsm_intersection<S1 extends Structural, S2 extends Structural>(F1: GenericDFA<S1>, F2: GenericDFA<S2>): ProductDFA<S1, S2> {
+    return fsm_product(F1, F2, (a, b) => a && b);
+}
+
+// L(F1) \ L(F2)
+function fsm_difference<S1 extends Structural, S2 extends Structural>(F1: GenericDFA<S1>, F2: GenericDFA<S2>): ProductDFA<S1, S2> {
+    return fsm_product(F1, F2, (a, b) => a && !b);
+}
+
+// (L(F1) \ L(F2)) ∪ (L(F2) \ L(F1))
+function fsm_symmetric_difference<S1 extends Structural, S2 extends Structural>(F1: GenericDFA<S1>, F2: GenericDFA<S2>): ProductDFA<S1, S2> {
+    return fsm_product(F1, F2, (a, b) => a !== b);
+}
+
+/**
+ * Σ* \ L(F). The automaton is first made total with `complete`, using
+ * the fresh state `sink`, then accepting and non-accepting states swap.
+ */
+function fsm_complement<S extends Structural>(F: GenericDFA<S>, sink: S): GenericDFA<S> {
+    const T = complete(F, sink);
+    return { ...T, A: T.Q.difference(T.A) };
 }
 
 function regexp2DFA(r: RegExp, Sigma: RecursiveSet<Char>): DFA {
@@ -107,10 +158,10 @@ function regExpEquiv(
     const F1 = toDFA(r1);
     const F2 = toDFA(r2);
 
-    const r1MinusR2 = fsm_complement(F1, F2);
+    const r1MinusR2 = fsm_difference(F1, F2);
     if (!is_empty(r1MinusR2)) return false;
 
-    const r2MinusR1 = fsm_complement(F2, F1);
+    const r2MinusR1 = fsm_difference(F2, F1);
     if (!is_empty(r2MinusR1)) return false;
 
     return true;
@@ -120,7 +171,13 @@ function regExpEquiv(
 export {
     regExpEquiv,
     regexp2DFA,
+    fsm_product,
+    fsm_union,
+    fsm_intersection,
+    fsm_difference,
+    fsm_symmetric_difference,
     fsm_complement,
+    BooleanOp,
     ProductDFA,
     StatePair,
     findWitness
@@ -1,39 +1,159 @@
 import { Value, Structural, RecursiveSet, RecursiveMap, Tuple } from "recursive-set";
-import { NFA, Char } from "./01-NFA-2-DFA";
+import { NFA, State, Char, GenericDFA } from "./01-NFA-2-DFA";
+import { Word, runDFA, runNFA } from "./FSM-Run";
 
 // ============================================================================
 // 1. GENERIC DFA INTERFACE
 // ============================================================================
 
-/**
- * Interface representing any deterministic automaton.
- * S is the type of the state (e.g. number, Set<number>, Set<Set<number>>).
- */
-export interface GenericDFA<S extends Structural> {
-    Q: RecursiveSet<S>;
-    Σ: RecursiveSet<Char>;
-    δ: RecursiveMap<Tuple<[S, Char]>, S>;
-    q0: S;
-    A: RecursiveSet<S>;
-}
+// GenericDFA lives next to the subset construction and is re-exported
+// here, where most modules import it from.
+export { GenericDFA };
 
 // ============================================================================
 // 2. DFA VISUALIZATION (String & Dot)
 // ============================================================================
 
-export function dfa2string<S extends Structural>(dfa: GenericDFA<S>): string {
+/**
+ * The states sorted by RecursiveSet.compareVisual and named S0, S1, ...
+ * in this order. Every exporter uses this naming, so the names in the
+ * text, DOT, TikZ and Mermaid output and in the legend agree.
+ */
+export function nameStates<S extends Value>(Q: RecursiveSet<S>): {
+    sortedStates: S[];
+    stateToName: RecursiveMap<S, string>;
+} {
+    const sortedStates = [...Q].sort(RecursiveSet.compareVisual);
+    const stateToName = new RecursiveMap<S, string>();
+    sortedStates.forEach((q, i) => stateToName.set(q, `S${i}`));
+    return { sortedStates, stateToName };
+}
+
+/**
+ * An edge of the TikZ and Mermaid pictures between the states named
+ * `from` and `to`. All characters leading from p to q share one edge.
+ */
+export type Edge = { from: string; to: string; labels: string[] };
+
+// Collects the labels of parallel edges in the order they are added.
+export function addEdge(edges: Edge[], from: string, to: string, label: string): void {
+    const edge = edges.find(e => e.from === from && e.to === to);
+    if (edge) edge.labels.push(label);
+    else edges.push({ from, to, labels: [label] });
+}
+
+/**
+ * Optional highlighting for dfa2dot and nfa2dot: the given states are
+ * filled, the given transitions ⟨p, c, q⟩ are drawn bold and red. If a
+ * word is given, its run is highlighted as well, including every active
+ * branch and the ε-moves of an NFA. The states reached at the end are
+ * green if the word is accepted and red otherwise. Like findWitness, the
+ * word "ε" stands for the empty word.
+ */
+export type DotOptions<S extends Value> = {
+    highlightStates?: RecursiveSet<S>;
+    highlightEdges?: RecursiveSet<Tuple<[S, Char, S]>>;
+    word?: Word;
+    /** label of an edge carrying the given characters, compactLabel by default */
+    edgeLabel?: (chars: Char[]) => string;
+};
+
+const HIGHLIGHT_STATE = ', style=filled, fillcolor="#ffe08a"';
+const HIGHLIGHT_EDGE = ', color="#d62728", penwidth=2.5';
+const ACCEPTED_STATE = ', style=filled, fillcolor="#9be39b"';
+const REJECTED_STATE = ', style=filled, fillcolor="#f4a3a3"';
+
+type RunHighlight<S extends Value> = {
+    word: Word;
+    states: RecursiveSet<S>;
+    edges: RecursiveSet<Tuple<[S, Char, S]>>;
+    final: RecursiveSet<S>;
+    accepted: boolean;
+};
+
+const runWord = (w: Word): Word => (w === "ε" ? "" : w);
+
+function dfaRun<S extends Value>(dfa: GenericDFA<S>, w: Word): RunHighlight<S> {
+    const { steps, accepted } = runDFA(dfa, runWord(w));
+    const states = new RecursiveSet<S>();
+    const edges = new RecursiveSet<Tuple<[S, Char, S]>>();
+    steps.forEach(({ states: M }, i) => {
+        const next = steps[i + 1];
+        for (const q of M) {
+            states.add(q);
+            if (next) for (const p of next.states) edges.add(new Tuple(q, next.symbol!, p));
+        }
+    });
+    return { word: w, states, edges, final: steps[steps.length - 1].states, accepted };
+}
+
+function nfaRun(nfa: NFA, w: Word): RunHighlight<State> {
+    const { steps, accepted } = runNFA(nfa, runWord(w));
+    const states = new RecursiveSet<State>();
+    const edges = new RecursiveSet<Tuple<[State, Char, State]>>();
+    steps.forEach(({ states: M }, i) => {
+        const next = steps[i + 1];
+        for (const q of M) {
+            states.add(q);
+            // the ε-closure of the current states follows every ε-transition
+            for (const p of nfa.δ.get(new Tuple(q, "ε")) ?? []) edges.add(new Tuple(q, "ε", p));
+            if (!next) continue;
+            for (const p of nfa.δ.get(new Tuple(q, next.symbol!)) ?? []) {
+                edges.add(new Tuple(q, next.symbol!, p));
+            }
+        }
+    });
+    return { word: w, states, edges, final: steps[steps.length - 1].states, accepted };
+}
+
+function stateStyle<S extends Value>(q: S, options: DotOptions<S>, run?: RunHighlight<S>): string {
+    if (run?.final.has(q)) return run.accepted ? ACCEPTED_STATE : REJECTED_STATE;
+    return options.highlightStates?.has(q) || run?.states.has(q) ? HIGHLIGHT_STATE : "";
+}
+
+function edgeStyle<S extends Value>(e: Tuple<[S, Char, S]>, options: DotOptions<S>, run?: RunHighlight<S>): string {
+    return options.highlightEdges?.has(e) || run?.edges.has(e) ? HIGHLIGHT_EDGE : "";
+}
+
+/**
+ * Joins the labels of parallel edges. Runs of at least three consecutive
+ * single characters are written as ranges, e.g. a, b, c, d, x becomes
+ * [a-dx], while a, b stays a, b.
+ */
+export function compactLabel(chars: Char[]): string {
+    const single = chars.every(c => Array.from(c).length === 1);
+    if (!single) return chars.join(", ");
+
+    const codes = chars.map(c => c.codePointAt(0)!).sort((a, b) => a - b);
+    const runs: [number, number][] = [];
+    for (const code of codes) {
+        const last = runs[runs.length - 1];
+        if (last && code === last[1] + 1) last[1] = code;
+        else runs.push([code, code]);
+    }
+    if (runs.every(([lo, hi]) => hi - lo < 2)) return chars.join(", ");
+
+    const show = (code: number) => String.fromCodePoint(code);
+    const parts = runs.map(([lo, hi]) =>
+        hi - lo >= 2 ? `${show(lo)}-${show(hi)}` : lo === hi ? show(lo) : show(lo) + show(hi));
+    return `[${parts.join("")}]`;
+}
+
+// A caption above the graph, e.g. `aab: accepted`.
+// Quotes and backslashes would end or break a quoted DOT string.
+const dotEscape = (s: string): string => s.replace(/[\\"]/g, c => `\\${c}`);
+
+function runCaption<S extends Value>(run: RunHighlight<S>): string {
+    const w = typeof run.word === "string" ? run.word : run.word.join("");
+    return `  label="${dotEscape(w === "" ? "ε" : w)}: ${run.accepted ? "accepted" : "rejected"}"; labelloc="t";`;
+}
+
+export function dfa2string<S extends Value>(dfa: GenericDFA<S>): string {
     const { Q, Σ, δ, q0, A } = dfa;
     let result = "";
 
-    const stateToName = new RecursiveMap<S, string>();
-    
-    // Sort states for deterministic output
-    const sortedStates = [...Q].sort(RecursiveSet.compareVisual);
-    
-    let n = 0;
-    for (const q of sortedStates) {
-        stateToName.set(q, `S${n++}`);
-    }
+    const { sortedStates, stateToName } = nameStates(Q);
+    const n = sortedStates.length;
 
     result += `states: {S0, ..., S${n - 1}}\n\n`;
 
@@ -78,21 +198,17 @@ export function dfa2string<S extends Structural>(dfa: GenericDFA<S>): string {
     return result;
 }
 
-export function dfa2dot<S extends Structural>(dfa: GenericDFA<S>): string {
+export function dfa2dot<S extends Value>(dfa: GenericDFA<S>, options: DotOptions<S> = {}): string {
     const { Q, Σ, δ, q0, A } = dfa;
+    const run = options.word === undefined ? undefined : dfaRun(dfa, options.word);
     const lines: string[] = [];
 
     lines.push('digraph "Deterministic FSM" {');
     lines.push('  rankdir=LR;');
+    if (run) lines.push(runCaption(run));
     lines.push('  node [fontname="Arial", fontsize=12, shape=circle];');
 
-    const stateToName = new RecursiveMap<S, string>();
-    const sortedStates = [...Q].sort(RecursiveSet.compareVisual);
-
-    let n = 0;
-    for (const q of sortedStates) {
-        stateToName.set(q, `S${n++}`);
-    }
+    const { sortedStates, stateToName } = nameStates(Q);
 
     const startName = stateToName.get(q0);
     if (startName) {
@@ -103,23 +219,32 @@ export function dfa2dot<S extends Structural>(dfa: GenericDFA<S>): string {
     for (const q of sortedStates) {
         const name = stateToName.get(q)!;
         const shape = A.has(q) ? "doublecircle" : "circle";
-        lines.push(`  "${name}" [shape="${shape}"];`);
+        lines.push(`  "${name}" [shape="${shape}"${stateStyle(q, options, run)}];`);
     }
 
     for (const q of sortedStates) {
         const sourceName = stateToName.get(q)!;
         const sortedSigma = [...Σ].sort();
 
+        // all characters leading to the same target share one edge
+        const edges = new Map<string, { chars: Char[]; bold: string }>();
         for (const c of sortedSigma) {
             const target = δ.get(new Tuple(q, c));
 
             if (target) {
                 const targetName = stateToName.get(target);
                 if (targetName) {
-                    lines.push(`  "${sourceName}" -> "${targetName}" [label="${c}"];`);
+                    const edge = edges.get(targetName) ?? { chars: [], bold: "" };
+                    edge.chars.push(c);
+                    edge.bold = edge.bold || edgeStyle(new Tuple(q, c, target), options, run);
+                    edges.set(targetName, edge);
                 }
             }
         }
+        for (const [targetName, { chars, bold }] of edges) {
+            const label = dotEscape((options.edgeLabel ?? compactLabel)(chars));
+            lines.push(`  "${sourceName}" -> "${targetName}" [label="${label}"${bold}];`);
+        }
     }
 
     lines.push("}");
@@ -180,18 +305,24 @@ export function renderLegend<S extends Structural>(dfa: GenericDFA<S>): string {
 
 /**
  * Erstellt das HTML Grid Layout für den visuellen Vergleich.
+ * Optional werden Zeugen w1 ∈ L1 \ L2 und w2 ∈ L2 \ L1 angezeigt.
  */
 export function renderComparisonLayout(
     s1: string, svg1: string, legend1: string,
-    s2: string, svg2: string, legend2: string
+    s2: string, svg2: string, legend2: string,
+    witness1: string | null = null, witness2: string | null = null
 ): string {
+    const witness = (w: string | null, label: string) => w === null ? "" : `
+                <div style="margin-bottom: 10px; padding: 4px 8px; background: #fdecea; border-left: 3px solid #d62728;">
+                    Witness in ${label}: <code>${w}</code>
+                </div>`;
     return `
     <div style="display: flex; flex-direction: column; gap: 20px; font-family: sans-serif;">
         <div style="display: flex; gap: 20px; border: 1px solid #ccc; background: white; padding: 15px; border-radius: 5px;">
             <div style="flex: 1; min-width: 0;">
                 <h4 style="margin: 0 0 10px 0; border-bottom: 2px solid #ddd; padding-bottom: 5px;">
                     RegExp 1: <code style="color: #d63384;">${s1}</code>
-                </h4>
+                </h4>${witness(witness1, "L1 \\ L2")}
                 <div style="text-align: center; margin-bottom: 10px;">${svg1}</div>
                 <div style="max-height: 200px; overflow-y: auto; border: 1px solid #eee;">${legend1}</div>
             </div>
@@ -199,7 +330,7 @@ export function renderComparisonLayout(
             <div style="flex: 1; min-width: 0;">
                 <h4 style="margin: 0 0 10px 0; border-bottom: 2px solid #ddd; padding-bottom: 5px;">
                     RegExp 2: <code style="color: #d63384;">${s2}</code>
-                </h4>
+                </h4>${witness(witness2, "L2 \\ L1")}
                 <div style="text-align: center; margin-bottom: 10px;">${svg2}</div>
                 <div style="max-height: 200px; overflow-y: auto; border: 1px solid #eee;">${legend2}</div>
             </div>
@@ -250,25 +381,27 @@ export function nfa2string(nfa: NFA): string {
     return result;
 }
 
-export function nfa2dot(nfa: NFA): string {
+export function nfa2dot(nfa: NFA, options: DotOptions<State> = {}): string {
     const { Q, Σ, δ, q0, A } = nfa;
+    const run = options.word === undefined ? undefined : nfaRun(nfa, options.word);
+    const name = (q: State): string => dotEscape(String(q));
     const lines: string[] = [];
 
     lines.push('digraph "Non-Deterministic FSM" {');
     lines.push('  rankdir=LR;');
+    if (run) lines.push(runCaption(run));
     lines.push('  node [fontname="Arial", fontsize=12, shape=circle];');
 
     // Ghost Node
     lines.push('  "start_ghost" [label="", width=0.1, height=0.1, style=filled, color=blue];');
-    lines.push(`  "start_ghost" -> "${q0}";`);
+    lines.push(`  "start_ghost" -> "${name(q0)}";`);
 
     const sortedStates = [...Q].sort(RecursiveSet.compareVisual);
 
     // Nodes
     for (const q of sortedStates) {
-        const label = String(q);
         const shape = A.has(q) ? "doublecircle" : "circle";
-        lines.push(`  "${label}" [shape="${shape}"];`);
+        lines.push(`  "${name(q)}" [shape="${shape}"${stateStyle(q, options, run)}];`);
     }
 
     // Edges
@@ -278,7 +411,8 @@ export function nfa2dot(nfa: NFA): string {
         if (targetsEps) {
             const sortedTargets = [...targetsEps].sort(RecursiveSet.compareVisual);
             for (const p of sortedTargets) {
-                lines.push(`  "${q}" -> "${p}" [label="ε", weight="0.1"];`);
+                const bold = edgeStyle(new Tuple(q, "ε", p), options, run);
+                lines.push(`  "${name(q)}" -> "${name(p)}" [label="ε", weight="0.1"${bold}];`);
             }
         }
 
@@ -290,7 +424,8 @@ export function nfa2dot(nfa: NFA): string {
                 const sortedTargets = [...targets].sort(RecursiveSet.compareVisual);
                 for (const p of sortedTargets) {
                     // weight="10" pulls non-epsilon transitions tighter
-                    lines.push(`  "${q}" -> "${p}" [label="${c}", weight="10"];`);
+                    const bold = edgeStyle(new Tuple(q, c, p), options, run);
+                    lines.push(`  "${name(q)}" -> "${name(p)}" [label="${dotEscape(c)}", weight="10"${bold}];`);
                 }
             }
         }
@@ -0,0 +1,90 @@
+import { Structural, RecursiveSet, Tuple } from "recursive-set";
+import { NFA, State } from "./01-NFA-2-DFA";
+import { GenericDFA, Edge, addEdge, nameStates } from "./FSM-2-Dot";
+
+/*
+ * Mermaid stateDiagram output, e.g. for Markdown cells and web pages.
+ * The start state is marked by an arrow from [*], accepting states get a
+ * thick border. All characters leading from p to q share one edge.
+ */
+
+// Mermaid uses HTML entities with # instead of & inside labels.
+const mermaidEscape = (s: string): string => s.replace(/"/g, "#quot;").replace(/:/g, "#colon;");
+
+function stateDiagram(
+    nodes: { id: string; label: string }[],
+    start: string,
+    accepting: string[],
+    edges: Edge[],
+): string {
+    const lines: string[] = [];
+    lines.push("stateDiagram-v2");
+    lines.push("    direction LR");
+    lines.push("    classDef accepting stroke-width:4px");
+
+    for (const { id, label } of nodes) {
+        lines.push(`    state "${mermaidEscape(label)}" as ${id}`);
+    }
+    lines.push(`    [*] --> ${start}`);
+    for (const { from, to, labels } of edges) {
+        lines.push(`    ${from} --> ${to} : ${mermaidEscape(labels.join(", "))}`);
+    }
+    if (accepting.length > 0) {
+        lines.push(`    class ${accepting.join(", ")} accepting`);
+    }
+    return lines.join("\n");
+}
+
+export function dfa2mermaid<S extends Structural>(dfa: GenericDFA<S>): string {
+    const { Σ, δ, q0, A } = dfa;
+    const { sortedStates, stateToName } = nameStates(dfa.Q);
+    const sortedSigma = [...Σ].sort();
+    const name = (q: S) => stateToName.get(q)!;
+
+    const edges: Edge[] = [];
+    for (const q of sortedStates) {
+        for (const c of sortedSigma) {
+            const target = δ.get(new Tuple(q, c));
+            const targetName = target === undefined ? undefined : stateToName.get(target);
+            if (targetName) addEdge(edges, name(q), targetName, c);
+        }
+    }
+
+    return stateDiagram(
+        sortedStates.map(q => ({ id: name(q), label: name(q) })),
+        stateToName.get(q0) ?? "UNKNOWN",
+        sortedStates.filter(q => A.has(q)).map(name),
+        edges,
+    );
+}
+
+/**
+ * NFA states are numbers or strings that need not be valid Mermaid ids,
+ * so the states are called n0, n1, ... and labelled with the state.
+ */
+export function nfa2mermaid(nfa: NFA): string {
+    const { Σ, δ, q0, A } = nfa;
+    const sortedStates = [...nfa.Q].sort(RecursiveSet.compareVisual);
+    const ids = new Map<State, string>(sortedStates.map((q, i): [State, string] => [q, `n${i}`]));
+    const id = (q: State) => ids.get(q)!;
+    const sortedSigma = ["ε", ...[...Σ].sort()];
+
+    const edges: Edge[] = [];
+    for (const q of sortedStates) {
+        for (const c of sortedSigma) {
+            const targets = δ.get(new Tuple(q, c));
+            if (!targets) continue;
+            // targets outside of Q are left out, as in the DFA pictures
+            for (const p of [...targets].filter(p => ids.has(p)).sort(RecursiveSet.compareVisual)) {
+                addEdge(edges, id(q), id(p), c);
+            }
+        }
+    }
+
+    return stateDiagram(
+        sortedStates.map(q => ({ id: id(q), label: String(q) })),
+        ids.get(q0) ?? "UNKNOWN",
+        sortedStates.filter(q => A.has(q)).map(id),
+        edges,
+    );
+}
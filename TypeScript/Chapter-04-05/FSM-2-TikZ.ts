@@ -0,0 +1,111 @@
+import { Structural, RecursiveSet, Tuple } from "recursive-set";
+import { NFA, State } from "./01-NFA-2-DFA";
+import { GenericDFA, Edge, addEdge, nameStates } from "./FSM-2-Dot";
+
+/*
+ * TikZ output for the lecture notes. The pictures need
+ *
+ *     \usetikzlibrary{automata, positioning, arrows.meta}
+ *
+ * The states are placed in one row in the order of their names; for larger
+ * automata the positions are meant to be adjusted by hand. All characters
+ * leading from p to q share one edge, and if there are edges in both
+ * directions between p and q, they are bent apart.
+ */
+
+const texSpecial: Record<string, string> = {
+    "\\": "\\textbackslash{}",
+    "^": "\\textasciicircum{}",
+    "~": "\\textasciitilde{}",
+};
+
+function texEscape(s: string): string {
+    return s.replace(/[\\{}_#$%&^~]/g, c => texSpecial[c] ?? `\\${c}`);
+}
+
+const texSymbol = (c: string): string => (c === "ε" ? "$\\varepsilon$" : texEscape(c));
+
+function tikzPicture(
+    nodes: { id: string; label: string; initial: boolean; accepting: boolean }[],
+    edges: Edge[],
+): string {
+    const lines: string[] = [];
+    lines.push("\\begin{tikzpicture}[->, >={Stealth[round]}, shorten >=1pt, auto, node distance=2.5cm, semithick]");
+
+    nodes.forEach(({ id, label, initial, accepting }, i) => {
+        const options = ["state"];
+        if (initial) options.push("initial");
+        if (accepting) options.push("accepting");
+        if (i > 0) options.push(`right=of ${nodes[i - 1].id}`);
+        lines.push(`  \\node[${options.join(", ")}] (${id}) {${label}};`);
+    });
+
+    if (edges.length > 0) {
+        lines.push("  \\path");
+        for (const { from, to, labels } of edges) {
+            const reverse = edges.some(e => e.from === to && e.to === from);
+            const style = from === to ? "[loop above] " : reverse ? "[bend left] " : "";
+            const target = from === to ? "()" : `(${to})`;
+            lines.push(`    (${from}) edge ${style}node {${labels.join(", ")}} ${target}`);
+        }
+        lines.push("  ;");
+    }
+
+    lines.push("\\end{tikzpicture}");
+    return lines.join("\n");
+}
+
+export function dfa2tikz<S extends Structural>(dfa: GenericDFA<S>): string {
+    const { Σ, δ, q0, A } = dfa;
+    const { sortedStates, stateToName } = nameStates(dfa.Q);
+    const sortedSigma = [...Σ].sort();
+
+    const nodes = sortedStates.map((q, i) => ({
+        id: stateToName.get(q)!,
+        label: `$S_{${i}}$`,
+        initial: q.equals(q0),
+        accepting: A.has(q),
+    }));
+
+    const edges: Edge[] = [];
+    for (const q of sortedStates) {
+        for (const c of sortedSigma) {
+            const target = δ.get(new Tuple(q, c));
+            const targetName = target === undefined ? undefined : stateToName.get(target);
+            if (targetName) addEdge(edges, stateToName.get(q)!, targetName, texSymbol(c));
+        }
+    }
+    return tikzPicture(nodes, edges);
+}
+
+/**
+ * NFA states are numbers or strings that need not be valid TikZ node
+ * names, so the nodes are called n0, n1, ... and labelled with the state.
+ */
+export function nfa2tikz(nfa: NFA): string {
+    const { Σ, δ, q0, A } = nfa;
+    const sortedStates = [...nfa.Q].sort(RecursiveSet.compareVisual);
+    const ids = new Map<State, string>(sortedStates.map((q, i): [State, string] => [q, `n${i}`]));
+    const id = (q: State) => ids.get(q)!;
+    const sortedSigma = ["ε", ...[...Σ].sort()];
+
+    const nodes = sortedStates.map(q => ({
+        id: id(q),
+        label: texEscape(String(q)),
+        initial: q === q0,
+        accepting: A.has(q),
+    }));
+
+    const edges: Edge[] = [];
+    for (const q of sortedStates) {
+        for (const c of sortedSigma) {
+            const targets = δ.get(new Tuple(q, c));
+            if (!targets) continue;
+            // targets outside of Q are left out, as in the DFA pictures
+            for (const p of [...targets].filter(p => ids.has(p)).sort(RecursiveSet.compareVisual)) {
+                addEdge(edges, id(q), id(p), texSymbol(c));
+            }
+        }
+    }
+    return tikzPicture(nodes, edges);
+}
@@ -0,0 +1,226 @@
+import { Structural, RecursiveSet, RecursiveMap, Tuple } from "recursive-set";
+import { Char, deadStates } from "./01-NFA-2-DFA";
+import { GenericDFA } from "./FSM-2-Dot";
+
+// ============================================================================
+// 1. USEFUL PART OF THE AUTOMATON
+// ============================================================================
+
+/**
+ * The automaton restricted to the states that are reachable from q0 and
+ * from which an accepting state can be reached. States are numbered in
+ * the order of a breadth-first search, the start state gets number 0.
+ * The transitions are listed in the order of the sorted alphabet.
+ * If the language is empty, there are no states at all.
+ */
+type Trimmed = {
+    accepting: boolean[];
+    edges: { c: Char; target: number }[][];
+};
+
+function trim<S extends Structural>(F: GenericDFA<S>): Trimmed {
+    const sortedSigma = [...F.Σ].sort();
+    const dead = deadStates(F);
+    if (dead.has(F.q0)) return { accepting: [], edges: [] };
+
+    const index = new RecursiveMap<S, number>();
+    index.set(F.q0, 0);
+    const states: S[] = [F.q0];
+    const edges: { c: Char; target: number }[][] = [];
+    for (let i = 0; i < states.length; i++) {
+        edges.push([]);
+        for (const c of sortedSigma) {
+            const q = F.δ.get(new Tuple(states[i], c));
+            if (q === undefined || dead.has(q)) continue;
+            let j = index.get(q);
+            if (j === undefined) {
+                j = states.length;
+                index.set(q, j);
+                states.push(q);
+            }
+            edges[i].push({ c, target: j });
+        }
+    }
+    return { accepting: states.map(q => F.A.has(q)), edges };
+}
+
+// Checks whether the trimmed automaton contains a cycle.
+function hasCycle({ edges }: Trimmed): boolean {
+    const WHITE = 0, GREY = 1, BLACK = 2;
+    const color = edges.map(() => WHITE);
+    const visit = (i: number): boolean => {
+        color[i] = GREY;
+        for (const { target } of edges[i]) {
+            if (color[target] === GREY) return true;
+            if (color[target] === WHITE && visit(target)) return true;
+        }
+        color[i] = BLACK;
+        return false;
+    };
+    return edges.length > 0 && visit(0);
+}
+
+// ============================================================================
+// 2. DECISION PROCEDURES
+// ============================================================================
+
+/**
+ * L(F) = ∅ iff no accepting state is reachable from q0.
+ */
+function isEmptyLanguage<S extends Structural>(F: GenericDFA<S>): boolean {
+    return trim(F).edges.length === 0;
+}
+
+/**
+ * L(F) is finite iff no useful state lies on a cycle, since every cycle
+ * through a useful state can be pumped.
+ */
+function isFiniteLanguage<S extends Structural>(F: GenericDFA<S>): boolean {
+    return !hasCycle(trim(F));
+}
+
+/**
+ * L(F) = Σ* iff every state reachable from q0 is accepting and has a
+ * transition for every character. Missing transitions reject.
+ */
+function isUniversalLanguage<S extends Structural>(F: GenericDFA<S>): boolean {
+    const visited = new RecursiveSet<S>(F.q0);
+    const queue: S[] = [F.q0];
+    for (let i = 0; i < queue.length; i++) {
+        if (!F.A.has(queue[i])) return false;
+        for (const c of F.Σ) {
+            const q = F.δ.get(new Tuple(queue[i], c));
+            if (q === undefined) return false;
+            if (!visited.has(q)) {
+                visited.add(q);
+                queue.push(q);
+            }
+        }
+    }
+    return true;
+}
+
+// ============================================================================
+// 3. WORD LENGTHS AND COUNTS
+// ============================================================================
+
+/**
+ * The length of the shortest word in L(F), or null if L(F) is empty.
+ */
+function shortestWordLength<S extends Structural>(F: GenericDFA<S>): number | null {
+    const { accepting, edges } = trim(F);
+    if (edges.length === 0) return null;
+
+    const distance = edges.map(() => -1);
+    distance[0] = 0;
+    const queue = [0];
+    for (let i = 0; i < queue.length; i++) {
+        const p = queue[i];
+        if (accepting[p]) return distance[p];
+        for (const { target } of edges[p]) {
+            if (distance[target] < 0) {
+                distance[target] = distance[p] + 1;
+                queue.push(target);
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * The length of the longest word in L(F): null if L(F) is empty and
+ * Infinity if L(F) is infinite. Otherwise the useful part is acyclic and
+ * the longest path from q0 to an accepting state is computed bottom up.
+ */
+function longestWordLength<S extends Structural>(F: GenericDFA<S>): number | null {
+    const T = trim(F);
+    if (T.edges.length === 0) return null;
+    if (hasCycle(T)) return Infinity;
+
+    // every useful state reaches an accepting state, so longest[i] >= 0
+    const longest: number[] = [];
+    const visit = (i: number): number => {
+        if (longest[i] === undefined) {
+            longest[i] = T.accepting[i] ? 0 : -Infinity;
+            for (const { target } of T.edges[i]) {
+                longest[i] = Math.max(longest[i], 1 + visit(target));
+            }
+        }
+        return longest[i];
+    };
+    return visit(0);
+}
+
+/**
+ * counts[n] is the number of words of length n in L(F) for
+ * n = 0, ..., maxLength. The counts are computed by dynamic programming
+ * over the states, so they stay cheap even when there are far too many
+ * words to enumerate. Beyond 2^53 they are no longer exact.
+ */
+function countWords<S extends Structural>(F: GenericDFA<S>, maxLength: number): number[] {
+    const { accepting, edges } = trim(F);
+    const counts: number[] = [];
+    // paths[i] is the number of words of the current length leading to i
+    let paths: number[] = edges.map((_, i) => (i === 0 ? 1 : 0));
+    for (let n = 0; n <= maxLength; n++) {
+        counts.push(paths.reduce((sum, k, i) => (accepting[i] ? sum + k : sum), 0));
+        const next = edges.map(() => 0);
+        edges.forEach((out, i) => {
+            for (const { target } of out) next[target] += paths[i];
+        });
+        paths = next;
+    }
+    return counts;
+}
+
+// ============================================================================
+// 4. ENUMERATION
+// ============================================================================
+
+type EnumerateOptions = {
+    /** only words with at most this many characters */
+    maxLength?: number;
+    /** stop after this many words */
+    maxCount?: number;
+};
+
+/**
+ * Lists the words of L(F) in shortlex order: shorter words first, words
+ * of the same length in lexicographic order of the sorted alphabet.
+ * The empty word is returned as "". Since F is deterministic, every word
+ * is generated by exactly one path, and paths into dead states are never
+ * followed. An infinite language needs at least one of the two limits.
+ */
+function enumerateWords<S extends Structural>(F: GenericDFA<S>, options: EnumerateOptions = {}): string[] {
+    const { maxLength = Infinity, maxCount = Infinity } = options;
+    const { accepting, edges } = trim(F);
+    if (maxLength === Infinity && maxCount === Infinity && hasCycle({ accepting, edges })) {
+        throw new Error("The language is infinite; specify maxLength or maxCount");
+    }
+
+    const words: string[] = [];
+    let layer = edges.length === 0 ? [] : [{ state: 0, word: "" }];
+    for (let n = 0; n <= maxLength && layer.length > 0; n++) {
+        for (const { state, word } of layer) {
+            if (words.length >= maxCount) return words;
+            if (accepting[state]) words.push(word);
+        }
+        const next: { state: number; word: string }[] = [];
+        for (const { state, word } of layer) {
+            for (const { c, target } of edges[state]) next.push({ state: target, word: word + c });
+        }
+        layer = next;
+    }
+    return words;
+}
+
+export {
+    isEmptyLanguage,
+    isFiniteLanguage,
+    isUniversalLanguage,
+    shortestWordLength,
+    longestWordLength,
+    countWords,
+    enumerateWords,
+    EnumerateOptions
+}
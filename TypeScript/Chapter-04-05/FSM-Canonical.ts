@@ -0,0 +1,123 @@
+import { Value, RecursiveSet, RecursiveMap, Tuple } from "recursive-set";
+import { Char } from "./01-NFA-2-DFA";
+import { GenericDFA } from "./FSM-2-Dot";
+
+// ============================================================================
+// 1. CANONICAL FORM
+// ============================================================================
+
+/**
+ * Renumbers the states in the order in which a breadth-first search from
+ * q0 discovers them, trying the characters in sorted order. The states of
+ * the result are the numbers 0, ..., n-1 and the start state is always 0.
+ * Unreachable states have no place in this order and are dropped.
+ *
+ * Two DFAs whose reachable parts are isomorphic have identical canonical
+ * forms, whatever their states looked like before.
+ */
+function canonical<S extends Value>(F: GenericDFA<S>): GenericDFA<number> {
+    const sortedSigma = [...F.Σ].sort();
+    const number = new RecursiveMap<S, number>();
+    number.set(F.q0, 0);
+    const queue: S[] = [F.q0];
+    for (let i = 0; i < queue.length; i++) {
+        for (const c of sortedSigma) {
+            const q = F.δ.get(new Tuple(queue[i], c));
+            if (q !== undefined && number.get(q) === undefined) {
+                number.set(q, queue.length);
+                queue.push(q);
+            }
+        }
+    }
+
+    const rename = (q: S): number => number.get(q)!;
+
+    const δ = new RecursiveMap<Tuple<[number, Char]>, number>();
+    const A = new RecursiveSet<number>();
+    for (const q of queue) {
+        for (const c of sortedSigma) {
+            const target = F.δ.get(new Tuple(q, c));
+            if (target !== undefined) δ.set(new Tuple(rename(q), c), rename(target));
+        }
+        if (F.A.has(q)) A.add(rename(q));
+    }
+
+    return { Q: new RecursiveSet<number>(...queue.map((_, i) => i)), Σ: F.Σ, δ, q0: 0, A };
+}
+
+// ============================================================================
+// 2. ISOMORPHISM
+// ============================================================================
+
+/**
+ * Either the bijection between the reachable states, or the first place
+ * where the two automata differ: `word` leads to the states p1 and p2,
+ * and `reason` explains what is different there.
+ */
+type IsomorphismResult<S1 extends Value, S2 extends Value> =
+    | { isomorphic: true; bijection: RecursiveMap<S1, S2> }
+    | { isomorphic: false; word: string; reason: string };
+
+/**
+ * Runs both automata in lockstep from their start states. Since they are
+ * deterministic, the only candidate for a bijection maps δ1(p1, c) to
+ * δ2(p2, c) whenever p1 is mapped to p2. The check fails as soon as this
+ * mapping would have to be inconsistent.
+ *
+ * For minimal DFAs, isomorphism is the same as equivalence.
+ */
+function isomorphic<S1 extends Value, S2 extends Value>(
+    F1: GenericDFA<S1>,
+    F2: GenericDFA<S2>,
+): IsomorphismResult<S1, S2> {
+    const mismatch = (word: string, reason: string): IsomorphismResult<S1, S2> =>
+        ({ isomorphic: false, word: word === "" ? "ε" : word, reason });
+
+    if (!F1.Σ.equals(F2.Σ)) {
+        return mismatch("", `the alphabets ${F1.Σ} and ${F2.Σ} differ`);
+    }
+    const sortedSigma = [...F1.Σ].sort();
+
+    const forward = new RecursiveMap<S1, S2>();
+    const backward = new RecursiveMap<S2, S1>();
+    forward.set(F1.q0, F2.q0);
+    backward.set(F2.q0, F1.q0);
+    const queue: { p1: S1; p2: S2; word: string }[] = [{ p1: F1.q0, p2: F2.q0, word: "" }];
+
+    for (let i = 0; i < queue.length; i++) {
+        const { p1, p2, word } = queue[i];
+        if (F1.A.has(p1) !== F2.A.has(p2)) {
+            const [yes, no] = F1.A.has(p1) ? [p1, p2] : [p2, p1];
+            return mismatch(word, `${yes} is accepting, but ${no} is not`);
+        }
+        for (const c of sortedSigma) {
+            const q1 = F1.δ.get(new Tuple(p1, c));
+            const q2 = F2.δ.get(new Tuple(p2, c));
+            if (q1 === undefined && q2 === undefined) continue;
+            if (q1 === undefined || q2 === undefined) {
+                const p = q1 === undefined ? p1 : p2;
+                return mismatch(word, `δ(${p}, ${c}) is only defined in one automaton`);
+            }
+            const image = forward.get(q1);
+            const preimage = backward.get(q2);
+            if (image === undefined && preimage === undefined) {
+                forward.set(q1, q2);
+                backward.set(q2, q1);
+                queue.push({ p1: q1, p2: q2, word: word + c });
+            } else if (image !== undefined && !new RecursiveSet<S2>(image).has(q2)) {
+                // states may be numbers, which have no equals method
+                return mismatch(word + c, `${q1} is already mapped to ${image}, not to ${q2}`);
+            } else if (image === undefined) {
+                return mismatch(word + c, `${q2} is already the image of ${preimage}, not of ${q1}`);
+            }
+        }
+    }
+
+    return { isomorphic: true, bijection: forward };
+}
+
+export {
+    canonical,
+    isomorphic,
+    IsomorphismResult
+}
@@ -0,0 +1,36 @@
+import { Structural, RecursiveSet, Tuple } from "recursive-set";
+import { GenericDFA } from "./01-NFA-2-DFA";
+
+/**
+ * A DFA is total iff δ(q, c) is defined for every q ∈ Q and every c ∈ Σ.
+ */
+function isTotal<S extends Structural>(F: GenericDFA<S>): boolean {
+    for (const q of F.Q) for (const c of F.Σ) {
+        if (F.δ.get(new Tuple(q, c)) === undefined) return false;
+    }
+    return true;
+}
+
+/**
+ * Makes F total: every missing transition is redirected into the state
+ * `sink`, which loops on every character and is not accepting. A total
+ * automaton is returned unchanged. The sink has to be a fresh state.
+ */
+function complete<S extends Structural>(F: GenericDFA<S>, sink: S): GenericDFA<S> {
+    if (isTotal(F)) return F;
+    if (F.Q.has(sink)) {
+        throw new Error(`The sink ${sink} is already a state of the automaton`);
+    }
+
+    const Q = F.Q.union(new RecursiveSet<S>(sink));
+    const δ = F.δ.mutableCopy();
+    for (const q of Q) for (const c of F.Σ) {
+        if (δ.get(new Tuple(q, c)) === undefined) δ.set(new Tuple(q, c), sink);
+    }
+    return { Q, Σ: F.Σ, δ, q0: F.q0, A: F.A };
+}
+
+export {
+    isTotal,
+    complete
+}
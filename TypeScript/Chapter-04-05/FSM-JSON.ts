@@ -0,0 +1,301 @@
+import { Structural, Value, RecursiveSet, RecursiveMap, Tuple } from "recursive-set";
+import { NFA, DFA, DFAState, State, Char, TransRel } from "./01-NFA-2-DFA";
+import { MinDFA, MinState } from "./07-Minimize";
+import { GenericDFA } from "./FSM-2-Dot";
+
+// ============================================================================
+// 1. THE FORMAT
+// ============================================================================
+
+/*
+ * An automaton is stored as a single JSON object:
+ *
+ *     {
+ *         "kind": "dfa",
+ *         "states": [{"set": [1, 2]}, {"set": []}],
+ *         "alphabet": ["a", "b"],
+ *         "start": {"set": [1, 2]},
+ *         "accepting": [{"set": [1, 2]}],
+ *         "transitions": [
+ *             {"from": {"set": [1, 2]}, "symbol": "a", "to": {"set": []}},
+ *             ...
+ *         ]
+ *     }
+ *
+ * Numbers and strings stand for themselves, a RecursiveSet is written as
+ * {"set": [...]} and a Tuple as {"tuple": [...]}, both nested arbitrarily.
+ * For "kind": "nfa" the field "to" holds an array of states, and the
+ * symbol "ε" is allowed in addition to the alphabet.
+ *
+ * Sets are written in sorted order, so equal automata are written as
+ * equal text. Subclasses of Tuple, e.g. regular expressions, cannot be
+ * stored, since reading them back would lose their class.
+ */
+
+type ValueJSON = number | string | { set: ValueJSON[] } | { tuple: ValueJSON[] };
+
+type AutomatonJSON = {
+    kind: "nfa" | "dfa";
+    states: ValueJSON[];
+    alphabet: Char[];
+    start: ValueJSON;
+    accepting: ValueJSON[];
+    transitions: { from: ValueJSON; symbol: Char; to: ValueJSON | ValueJSON[] }[];
+};
+
+/**
+ * Thrown by the loaders. `path` points to the offending part of the
+ * document, e.g. `$.transitions[3].to`.
+ */
+class AutomatonFormatError extends Error {
+    constructor(readonly path: string, readonly detail: string) {
+        super(`${path}: ${detail}`);
+        this.name = "AutomatonFormatError";
+    }
+}
+
+// ============================================================================
+// 2. WRITING
+// ============================================================================
+
+function encode(v: Value): ValueJSON {
+    if (typeof v === "number" || typeof v === "string") return v;
+    if (v instanceof RecursiveSet) {
+        return { set: [...v].sort(RecursiveSet.compareVisual).map(encode) };
+    }
+    if (v instanceof Tuple && v.constructor === Tuple) {
+        return { tuple: Array.from({ length: v.length }, (_, i) => encode(v.get(i))) };
+    }
+    throw new Error(`Cannot store ${v} as JSON`);
+}
+
+const sorted = <T extends Value>(S: RecursiveSet<T>): T[] => [...S].sort(RecursiveSet.compareVisual);
+
+/**
+ * Only transitions from states in Q on symbols in Σ (or ε for NFAs) to
+ * states in Q can be written, so anything else is rejected instead of
+ * being silently dropped. Otherwise reading the text back would not give
+ * the same automaton.
+ */
+function checkWritable<S extends Value, T>(
+    F: { Q: RecursiveSet<S>; Σ: RecursiveSet<Char>; δ: RecursiveMap<Tuple<[S, Char]>, T>; q0: S; A: RecursiveSet<S> },
+    targets: (t: T) => S[],
+    allowEpsilon: boolean,
+): void {
+    const fail = (detail: string): never => { throw new Error(`Cannot store the automaton as JSON: ${detail}`); };
+    if (!F.Q.has(F.q0)) fail(`the start state ${F.q0} is not in Q`);
+    for (const q of F.A) if (!F.Q.has(q)) fail(`the accepting state ${q} is not in Q`);
+    for (const [key, t] of F.δ) {
+        const p = key.get(0), c = key.get(1);
+        if (!F.Q.has(p)) fail(`δ(${p}, ${c}) starts in ${p}, which is not in Q`);
+        if (!F.Σ.has(c) && !(allowEpsilon && c === "ε")) fail(`δ(${p}, ${c}) uses ${c}, which is not in Σ`);
+        for (const q of targets(t)) if (!F.Q.has(q)) fail(`δ(${p}, ${c}) leads to ${q}, which is not in Q`);
+    }
+}
+
+function nfa2json(nfa: NFA): string {
+    checkWritable(nfa, (targets: RecursiveSet<State>) => [...targets], true);
+    const transitions: AutomatonJSON["transitions"] = [];
+    for (const q of sorted(nfa.Q)) {
+        for (const c of [...nfa.Σ].sort().concat("ε")) {
+            const targets = nfa.δ.get(new Tuple(q, c));
+            if (targets) transitions.push({ from: encode(q), symbol: c, to: sorted(targets).map(encode) });
+        }
+    }
+    const doc: AutomatonJSON = {
+        kind: "nfa",
+        states: sorted(nfa.Q).map(encode),
+        alphabet: [...nfa.Σ].sort(),
+        start: encode(nfa.q0),
+        accepting: sorted(nfa.A).map(encode),
+        transitions,
+    };
+    return JSON.stringify(doc, null, 2);
+}
+
+/** Works for DFA, MinDFA and every other GenericDFA. */
+function dfa2json<S extends Value>(F: GenericDFA<S>): string {
+    checkWritable(F, target => [target], false);
+    const transitions: AutomatonJSON["transitions"] = [];
+    for (const q of sorted(F.Q)) {
+        for (const c of [...F.Σ].sort()) {
+            const target = F.δ.get(new Tuple(q, c));
+            if (target !== undefined) transitions.push({ from: encode(q), symbol: c, to: encode(target) });
+        }
+    }
+    const doc: AutomatonJSON = {
+        kind: "dfa",
+        states: sorted(F.Q).map(encode),
+        alphabet: [...F.Σ].sort(),
+        start: encode(F.q0),
+        accepting: sorted(F.A).map(encode),
+        transitions,
+    };
+    return JSON.stringify(doc, null, 2);
+}
+
+// ============================================================================
+// 3. READING
+// ============================================================================
+
+const isObject = (x: unknown): x is Record<string, unknown> =>
+    typeof x === "object" && x !== null && !Array.isArray(x);
+
+function decode(x: unknown, path: string): Value {
+    if (typeof x === "number" || typeof x === "string") return x;
+    if (isObject(x) && Array.isArray(x.set) && Object.keys(x).length === 1) {
+        return new RecursiveSet<Value>(...x.set.map((y, i) => decode(y, `${path}.set[${i}]`)));
+    }
+    if (isObject(x) && Array.isArray(x.tuple) && Object.keys(x).length === 1) {
+        return new Tuple(...x.tuple.map((y, i) => decode(y, `${path}.tuple[${i}]`)));
+    }
+    throw new AutomatonFormatError(path, `expected a number, a string, {"set": [...]} or {"tuple": [...]}`);
+}
+
+/**
+ * Turns a decoded value into a state of the expected type, or throws if
+ * it has the wrong shape.
+ */
+type StateReader<S extends Value> = (v: Value, path: string) => S;
+
+// numbers and strings, the states of an NFA
+const primitiveState: StateReader<State> = (v, path) => {
+    if (typeof v !== "number" && typeof v !== "string") {
+        throw new AutomatonFormatError(path, "expected a number or a string");
+    }
+    return v;
+};
+
+function setOf<T extends Value>(element: StateReader<T>): StateReader<RecursiveSet<T>> {
+    return (v, path) => {
+        if (!(v instanceof RecursiveSet)) throw new AutomatonFormatError(path, "expected a set");
+        return new RecursiveSet<T>(...[...v].map((x, i) => element(x, `${path}.set[${i}]`)));
+    };
+}
+
+// any set or tuple, e.g. the pairs of a product automaton
+const structuralState: StateReader<Structural> = (v, path) => {
+    if (v instanceof RecursiveSet || v instanceof Tuple) return v;
+    throw new AutomatonFormatError(path, "expected a set or a tuple");
+};
+
+function field<T>(doc: Record<string, unknown>, name: string, check: (x: unknown) => x is T, expected: string): T {
+    const x = doc[name];
+    if (!check(x)) throw new AutomatonFormatError(`$.${name}`, `expected ${expected}`);
+    return x;
+}
+
+const isArray = (x: unknown): x is unknown[] => Array.isArray(x);
+const isDefined = (x: unknown): x is unknown => x !== undefined;
+
+type Loaded<S extends Value> = {
+    Q: RecursiveSet<S>;
+    Σ: RecursiveSet<Char>;
+    q0: S;
+    A: RecursiveSet<S>;
+    edges: { from: S; symbol: Char; to: S[] }[];
+};
+
+function load<S extends Value>(text: string, kind: "nfa" | "dfa", readState: StateReader<S>): Loaded<S> {
+    let doc: unknown;
+    try {
+        doc = JSON.parse(text);
+    } catch (e) {
+        throw new AutomatonFormatError("$", `invalid JSON: ${(e as Error).message}`);
+    }
+    if (!isObject(doc)) throw new AutomatonFormatError("$", "expected an object");
+    if (doc.kind !== kind) throw new AutomatonFormatError("$.kind", `expected "${kind}"`);
+
+    const Q = new RecursiveSet<S>();
+    const state = (x: unknown, path: string): S => readState(decode(x, path), path);
+    const known = (x: unknown, path: string): S => {
+        const v = state(x, path);
+        if (!Q.has(v)) throw new AutomatonFormatError(path, `${v} is not listed in $.states`);
+        return v;
+    };
+
+    field(doc, "states", isArray, "an array").forEach((x, i) => {
+        const q = state(x, `$.states[${i}]`);
+        if (Q.has(q)) throw new AutomatonFormatError(`$.states[${i}]`, `duplicate state ${q}`);
+        Q.add(q);
+    });
+
+    const Σ = new RecursiveSet<Char>();
+    field(doc, "alphabet", isArray, "an array").forEach((c, i) => {
+        if (typeof c !== "string" || c === "ε") {
+            throw new AutomatonFormatError(`$.alphabet[${i}]`, "expected a string other than ε");
+        }
+        Σ.add(c);
+    });
+
+    const q0 = known(field(doc, "start", isDefined, "a state"), "$.start");
+    const A = new RecursiveSet<S>();
+    field(doc, "accepting", isArray, "an array").forEach((x, i) => A.add(known(x, `$.accepting[${i}]`)));
+
+    const seen = new RecursiveSet<Tuple<[S, Char]>>();
+    const edges = field(doc, "transitions", isArray, "an array").map((t, i) => {
+        const path = `$.transitions[${i}]`;
+        if (!isObject(t)) throw new AutomatonFormatError(path, "expected an object");
+        const from = known(t.from, `${path}.from`);
+        const symbol = t.symbol;
+        if (typeof symbol !== "string" || !(Σ.has(symbol) || (kind === "nfa" && symbol === "ε"))) {
+            throw new AutomatonFormatError(`${path}.symbol`, `expected a symbol of the alphabet`);
+        }
+        const key = new Tuple(from, symbol);
+        if (seen.has(key)) throw new AutomatonFormatError(path, `duplicate transition for δ(${from}, ${symbol})`);
+        seen.add(key);
+
+        if (kind === "dfa") return { from, symbol, to: [known(t.to, `${path}.to`)] };
+        if (!Array.isArray(t.to)) throw new AutomatonFormatError(`${path}.to`, "expected an array");
+        return { from, symbol, to: t.to.map((x, j) => known(x, `${path}.to[${j}]`)) };
+    });
+
+    return { Q, Σ, q0, A, edges };
+}
+
+function json2nfa(text: string): NFA {
+    const { Q, Σ, q0, A, edges } = load(text, "nfa", primitiveState);
+    const δ: TransRel = new RecursiveMap<Tuple<[State, Char]>, RecursiveSet<State>>();
+    for (const { from, symbol, to } of edges) {
+        δ.set(new Tuple(from, symbol), new RecursiveSet<State>(...to));
+    }
+    return { Q, Σ, δ, q0, A };
+}
+
+function loadDFA<S extends Structural>(text: string, readState: StateReader<S>): GenericDFA<S> {
+    const { Q, Σ, q0, A, edges } = load(text, "dfa", readState);
+    const δ = new RecursiveMap<Tuple<[S, Char]>, S>();
+    for (const { from, symbol, to } of edges) δ.set(new Tuple(from, symbol), to[0]);
+    return { Q, Σ, δ, q0, A };
+}
+
+/** States have to be sets of numbers and strings, as produced by nfa2dfa. */
+function json2dfa(text: string): DFA {
+    return loadDFA<DFAState>(text, setOf(primitiveState));
+}
+
+/** States have to be sets of sets of numbers and strings, as produced by minimize. */
+function json2minDFA(text: string): MinDFA {
+    return loadDFA<MinState>(text, setOf(setOf(primitiveState)));
+}
+
+/** States may be arbitrary sets and tuples, e.g. the pairs of a product automaton. */
+function json2genericDFA(text: string): GenericDFA<Structural> {
+    return loadDFA<Structural>(text, structuralState);
+}
+
+export {
+    ValueJSON,
+    AutomatonJSON,
+    AutomatonFormatError,
+    StateReader,
+    primitiveState,
+    setOf,
+    structuralState,
+    nfa2json,
+    dfa2json,
+    json2nfa,
+    json2dfa,
+    json2minDFA,
+    json2genericDFA
+}
@@ -0,0 +1,124 @@
+import { Structural, RecursiveSet, RecursiveMap, Tuple } from "recursive-set";
+import { NFA, DFA, State, Char, TransRel, nfa2dfa, SubsetOptions } from "./01-NFA-2-DFA";
+import { GenericDFA } from "./FSM-2-Dot";
+
+// ============================================================================
+// 1. REVERSAL
+// ============================================================================
+
+// The smallest natural number that is not yet a state.
+function freshState(Q: RecursiveSet<State>): State {
+    let n = Q.size;
+    while (Q.has(n)) n++;
+    return n;
+}
+
+/**
+ * Views a DFA as an NFA. The states are numbered 0, 1, ... in the sorted
+ * order that dfa2dot uses for its names S0, S1, ...
+ */
+function dfa2nfa<S extends Structural>(F: GenericDFA<S>): NFA {
+    const sortedStates = [...F.Q].sort(RecursiveSet.compareVisual);
+    const index = new RecursiveMap<S, number>();
+    sortedStates.forEach((q, i) => index.set(q, i));
+
+    const δ: TransRel = new RecursiveMap<Tuple<[State, Char]>, RecursiveSet<State>>();
+    for (const [key, q] of F.δ) {
+        δ.set(new Tuple(index.get(key.get(0))!, key.get(1)), new RecursiveSet<State>(index.get(q)!));
+    }
+
+    return {
+        Q: new RecursiveSet<State>(...sortedStates.map((_, i) => i)),
+        Σ: F.Σ,
+        δ,
+        q0: index.get(F.q0)!,
+        A: new RecursiveSet<State>(...[...F.A].map(q => index.get(q)!)),
+    };
+}
+
+// Every transition p → q becomes q → p, ε-transitions included.
+function reverseTransitions(δ: TransRel): TransRel {
+    const reversed: TransRel = new RecursiveMap<Tuple<[State, Char]>, RecursiveSet<State>>();
+    for (const [key, targets] of δ) {
+        for (const q of targets) {
+            const edge = new Tuple(q, key.get(1));
+            reversed.set(edge, (reversed.get(edge) ?? new RecursiveSet<State>()).union(new RecursiveSet<State>(key.get(0))));
+        }
+    }
+    return reversed;
+}
+
+/**
+ * An NFA for the reversed language { w^R | w ∈ L(nfa) }: every transition
+ * p → q becomes q → p, ε-transitions included, the start state becomes
+ * the only accepting state, and the accepting state becomes the start
+ * state. If there is not exactly one accepting state, a fresh start state
+ * with ε-transitions to all of them is added.
+ */
+function reverseNFA(nfa: NFA): NFA {
+    const δ = reverseTransitions(nfa.δ);
+    const addEdge = (p: State, c: Char, q: State) => {
+        const key = new Tuple(p, c);
+        δ.set(key, (δ.get(key) ?? new RecursiveSet<State>()).union(new RecursiveSet<State>(q)));
+    };
+
+    let Q = nfa.Q;
+    let q0: State;
+    if (nfa.A.size === 1) {
+        [q0] = [...nfa.A];
+    } else {
+        q0 = freshState(nfa.Q);
+        Q = Q.union(new RecursiveSet<State>(q0));
+        for (const q of nfa.A) addEdge(q0, "ε", q);
+    }
+
+    return { Q, Σ: nfa.Σ, δ, q0, A: new RecursiveSet<State>(nfa.q0) };
+}
+
+function reverseDFA<S extends Structural>(F: GenericDFA<S>): NFA {
+    return reverseNFA(dfa2nfa(F));
+}
+
+// ============================================================================
+// 2. BRZOZOWSKI'S ALGORITHM
+// ============================================================================
+
+/**
+ * The subset construction for the reversal of N. Unlike reverseNFA, no
+ * fresh start state is added: the construction starts directly from the
+ * set of accepting states of N. A fresh state would remain in the start
+ * subset only, so the start subset could differ from an equivalent subset
+ * found later, and the result would not be minimal.
+ */
+function determinizeReversed(N: NFA, options: SubsetOptions): DFA {
+    const reversed: NFA = {
+        Q: N.Q,
+        Σ: N.Σ,
+        δ: reverseTransitions(N.δ),
+        q0: N.q0, // not used, the construction starts from N.A
+        A: new RecursiveSet<State>(N.q0),
+    };
+    return nfa2dfa(reversed, { ...options, start: N.A });
+}
+
+/**
+ * Minimization by double reversal (Brzozowski 1962):
+ *
+ *     determinize(reverse(determinize(reverse(A))))
+ *
+ * Determinizing a reversed automaton whose states are all reachable yields
+ * a DFA in which no two states are equivalent. The input may even be an
+ * NFA. The result is the minimal total DFA, its states are sets of the
+ * numbers introduced by the second reversal.
+ */
+function brzozowski(A: NFA, options: SubsetOptions = {}): DFA {
+    const D = determinizeReversed(A, options);
+    return determinizeReversed(dfa2nfa(D), options);
+}
+
+export {
+    dfa2nfa,
+    reverseNFA,
+    reverseDFA,
+    brzozowski
+}
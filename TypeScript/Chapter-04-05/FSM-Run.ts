@@ -0,0 +1,98 @@
+import { Value, RecursiveSet, Tuple } from "recursive-set";
+import { NFA, State, Char, epsClosure, capitalDelta } from "./01-NFA-2-DFA";
+import { GenericDFA } from "./FSM-2-Dot";
+
+// A word is either a string (one symbol per character) or a list of symbols.
+type Word = string | readonly Char[];
+
+/**
+ * One step of a run: the symbol that was read (null for the initial
+ * configuration) and the set of states the automaton is in afterwards.
+ */
+type RunStep<S extends Value> = {
+    symbol: Char | null;
+    states: RecursiveSet<S>;
+};
+
+type RunTrace<S extends Value> = {
+    steps: RunStep<S>[];
+    accepted: boolean;
+};
+
+function symbols(w: Word): Char[] {
+    return typeof w === "string" ? Array.from(w) : [...w];
+}
+
+// ============================================================================
+// 1. NFA
+// ============================================================================
+
+/**
+ * Runs the word through the NFA. The first step is the ε-closure of the
+ * start state, every further step is Δ(M, c) for the next symbol c.
+ */
+function runNFA(nfa: NFA, w: Word): RunTrace<State> {
+    const { δ, q0, A } = nfa;
+    let M = epsClosure(q0, δ);
+    const steps: RunStep<State>[] = [{ symbol: null, states: M }];
+
+    for (const c of symbols(w)) {
+        M = capitalDelta(M, c, δ);
+        steps.push({ symbol: c, states: M });
+    }
+    return { steps, accepted: !M.intersection(A).isEmpty() };
+}
+
+function acceptsNFA(nfa: NFA, w: Word): boolean {
+    return runNFA(nfa, w).accepted;
+}
+
+// ============================================================================
+// 2. DFA
+// ============================================================================
+
+/**
+ * Runs the word through any deterministic automaton. Every step holds at
+ * most one state; once δ is undefined the run is stuck in the empty set.
+ */
+function runDFA<S extends Value>(dfa: GenericDFA<S>, w: Word): RunTrace<S> {
+    const { δ, q0, A } = dfa;
+    let q: S | undefined = q0;
+    const steps: RunStep<S>[] = [{ symbol: null, states: new RecursiveSet<S>(q0) }];
+
+    for (const c of symbols(w)) {
+        q = q === undefined ? undefined : δ.get(new Tuple(q, c));
+        steps.push({
+            symbol: c,
+            states: q === undefined ? new RecursiveSet<S>() : new RecursiveSet<S>(q),
+        });
+    }
+    return { steps, accepted: q !== undefined && A.has(q) };
+}
+
+function acceptsDFA<S extends Value>(dfa: GenericDFA<S>, w: Word): boolean {
+    return runDFA(dfa, w).accepted;
+}
+
+/**
+ * Renders a trace as one line per step, e.g. `a: {2, 3}`.
+ */
+function trace2string<S extends Value>(trace: RunTrace<S>): string {
+    const lines = trace.steps.map(({ symbol, states }) => {
+        const sorted = [...states].sort(RecursiveSet.compareVisual);
+        return `${symbol ?? "start"}: {${sorted.join(", ")}}`;
+    });
+    lines.push(trace.accepted ? "accepted" : "rejected");
+    return lines.join("\n");
+}
+
+export {
+    Word,
+    RunStep,
+    RunTrace,
+    runNFA,
+    acceptsNFA,
+    runDFA,
+    acceptsDFA,
+    trace2string
+}
@@ -0,0 +1,322 @@
+import { RecursiveSet } from "recursive-set";
+import { Char } from "./01-NFA-2-DFA";
+import {
+    RegExp,
+    EmptySet,
+    Epsilon,
+    CharNode,
+    Variable,
+    Star,
+    Concat,
+    Union
+} from "./03-RegExp-2-NFA";
+import { RegExpSyntaxError, MAX_REPETITION } from "./RegExp-Parser";
+
+// Our AST is called RegExp, so the native class has to be named explicitly.
+type JsRegExp = globalThis.RegExp;
+const JsRegExp = globalThis.RegExp;
+
+// ============================================================================
+// 1. COURSE REGEXP -> NATIVE REGEXP
+// ============================================================================
+
+// Outside of classes, the u flag rejects the escape \-. No classes are
+// generated, so - is left as it is.
+const escapeJs = (c: Char): string => c.replace(/[\\^$.*+?()[\]{}|\/]/g, "\\$&");
+
+// binding strength: union < concatenation < star < atom
+function precedence(r: RegExp): number {
+    if (r instanceof Union) return 0;
+    if (r instanceof Concat) return 1;
+    if (r instanceof Star) return 2;
+    return 3;
+}
+
+function toJsSource(r: RegExp): string {
+    const wrap = (s: RegExp, min: number) =>
+        precedence(s) < min ? `(?:${toJsSource(s)})` : toJsSource(s);
+
+    // ∅ matches nothing and ε matches the empty word
+    if (r instanceof EmptySet) return "[]";
+    if (r instanceof Epsilon) return "(?:)";
+    if (r instanceof CharNode) {
+        return Array.from(r.value).length === 1 ? escapeJs(r.value) : `(?:${escapeJs(r.value)})`;
+    }
+    if (r instanceof Star) return `${wrap(r.inner, 3)}*`;
+    if (r instanceof Concat) return wrap(r.left, 1) + wrap(r.right, 1);
+    if (r instanceof Union) return `${wrap(r.left, 0)}|${wrap(r.right, 0)}`;
+    if (r instanceof Variable) throw new Error(`Cannot translate variable ${r.name} into a JS RegExp`);
+    throw new Error(`Unknown RegExp Node: ${r}`);
+}
+
+/**
+ * A native RegExp that matches exactly the words of L(r): the pattern is
+ * anchored with ^(?:...)$ so that `test` checks the whole word, and the
+ * u flag makes every code point one character, as Array.from(w) does.
+ */
+function toJsRegExp(r: RegExp): JsRegExp {
+    return new JsRegExp(`^(?:${toJsSource(r)})$`, "u");
+}
+
+// ============================================================================
+// 2. NATIVE REGEXP -> COURSE REGEXP
+// ============================================================================
+
+type JsParseContext = {
+    source: string;
+    chars: string[];
+    pos: number;
+    Sigma?: RecursiveSet<Char>;
+};
+
+const fail = (ctx: JsParseContext, detail: string, expected: string[] = []): never => {
+    const found = ctx.pos < ctx.chars.length ? ctx.chars[ctx.pos] : "end of input";
+    throw new RegExpSyntaxError(ctx.source, ctx.pos, found, expected, detail);
+};
+
+const peek = (ctx: JsParseContext, k = 0): string | undefined => ctx.chars[ctx.pos + k];
+
+function requireSigma(ctx: JsParseContext, what: string): RecursiveSet<Char> {
+    return ctx.Sigma ?? fail(ctx, `${what} needs an alphabet; pass Sigma to fromJsRegExp`);
+}
+
+function charUnion(chars: Iterable<Char>): RegExp {
+    const sorted = [...new Set(chars)].sort((a, b) => a.codePointAt(0)! - b.codePointAt(0)!);
+    if (sorted.length === 0) return new EmptySet();
+    return sorted.map((c): RegExp => new CharNode(c)).reduce((l, r) => new Union(l, r));
+}
+
+function concatAll(factors: RegExp[]): RegExp {
+    if (factors.length === 0) return new Epsilon();
+    return factors.reduce((left, right) => new Concat(left, right));
+}
+
+const range = (lo: number, hi: number): Char[] =>
+    Array.from({ length: hi - lo + 1 }, (_, i) => String.fromCodePoint(lo + i));
+
+const CLASS_ESCAPES: Record<string, Char[]> = {
+    d: range(0x30, 0x39),
+    w: [...range(0x41, 0x5a), ...range(0x61, 0x7a), ...range(0x30, 0x39), "_"],
+    // WhiteSpace and LineTerminator of ECMAScript, including the category Zs
+    s: [
+        "\t", "\n", "\v", "\f", "\r", " ", "\u00a0", "\u1680", ...range(0x2000, 0x200a),
+        "\u2028", "\u2029", "\u202f", "\u205f", "\u3000", "\ufeff",
+    ],
+};
+
+const CONTROL_ESCAPES: Record<string, Char> = { n: "\n", r: "\r", t: "\t", f: "\f", v: "\v", "0": "\0" };
+
+const LINE_TERMINATORS = ["\n", "\r", "\u2028", "\u2029"];
+
+/** Characters in Σ that are not in `chars`. */
+function complement(ctx: JsParseContext, chars: Char[], what: string): Char[] {
+    const excluded = new Set(chars);
+    return [...requireSigma(ctx, what)].filter(c => !excluded.has(c));
+}
+
+/**
+ * Reads an escape sequence after the backslash and returns the set of
+ * characters it stands for. Backreferences and word boundaries are not
+ * regular operators and are rejected.
+ */
+function parseEscape(ctx: JsParseContext): Char[] {
+    const c = peek(ctx) ?? fail(ctx, "Incomplete escape sequence");
+    if (/[1-9]/.test(c) || (c === "k" && peek(ctx, 1) === "<")) {
+        return fail(ctx, "Backreferences do not describe a regular language");
+    }
+    if (c === "b" || c === "B") return fail(ctx, "Word boundaries are not supported");
+    ctx.pos++;
+
+    const lower = c.toLowerCase();
+    if (lower in CLASS_ESCAPES) {
+        const chars = CLASS_ESCAPES[lower];
+        if (c !== lower) return complement(ctx, chars, `\\${c}`);
+        // with an alphabet, only its characters are relevant
+        const { Sigma } = ctx;
+        return Sigma ? chars.filter(x => Sigma.has(x)) : chars;
+    }
+    if (c in CONTROL_ESCAPES) return [CONTROL_ESCAPES[c]];
+
+    const hex = (n: number) => {
+        const digits = ctx.chars.slice(ctx.pos, ctx.pos + n).join("");
+        if (!new JsRegExp(`^[0-9a-fA-F]{${n}}$`).test(digits)) fail(ctx, `Expected ${n} hex digits`);
+        ctx.pos += n;
+        return [String.fromCodePoint(parseInt(digits, 16))];
+    };
+    if (c === "x") return hex(2);
+    if (c === "u" && peek(ctx) === "{") {
+        const end = ctx.chars.indexOf("}", ctx.pos);
+        const digits = end < 0 ? "" : ctx.chars.slice(ctx.pos + 1, end).join("");
+        if (!/^[0-9a-fA-F]{1,6}$/.test(digits)) fail(ctx, "Invalid code point escape");
+        ctx.pos = end + 1;
+        return [String.fromCodePoint(parseInt(digits, 16))];
+    }
+    if (c === "u") return hex(4);
+    // identity escapes like \. or \*
+    return [c];
+}
+
+function parseClass(ctx: JsParseContext): Char[] {
+    ctx.pos++; // [
+    const negated = peek(ctx) === "^";
+    if (negated) ctx.pos++;
+
+    const chars: Char[] = [];
+    const single = (): Char[] => {
+        const c = peek(ctx) ?? fail(ctx, "Unterminated character class", ["']'"]);
+        ctx.pos++;
+        if (c !== "\\") return [c];
+        // inside a class, \b is the backspace character
+        if (peek(ctx) === "b") {
+            ctx.pos++;
+            return ["\b"];
+        }
+        return parseEscape(ctx);
+    };
+    while (peek(ctx) !== "]") {
+        const from = single();
+        if (peek(ctx) === "-" && peek(ctx, 1) !== "]" && peek(ctx, 1) !== undefined) {
+            ctx.pos++;
+            const to = single();
+            if (from.length !== 1 || to.length !== 1) fail(ctx, "Class escapes cannot bound a range");
+            const lo = from[0].codePointAt(0)!, hi = to[0].codePointAt(0)!;
+            if (lo > hi) fail(ctx, "Range out of order in character class");
+            // with an alphabet, only its characters are relevant
+            if (ctx.Sigma) chars.push(...[...ctx.Sigma].filter(c => lo <= c.codePointAt(0)! && c.codePointAt(0)! <= hi));
+            else chars.push(...range(lo, hi));
+        } else {
+            chars.push(...from);
+        }
+    }
+    ctx.pos++; // ]
+    return negated ? complement(ctx, chars, "A negated class") : chars;
+}
+
+let parseAlternative: (ctx: JsParseContext) => RegExp;
+
+function parseAtom(ctx: JsParseContext): RegExp {
+    const c = peek(ctx);
+    if (c === "(") {
+        ctx.pos++;
+        if (peek(ctx) === "?") {
+            const kind = ctx.chars.slice(ctx.pos, ctx.pos + 3).join("");
+            if (kind.startsWith("?:")) ctx.pos += 2;
+            else if (kind.startsWith("?<") && kind !== "?<=" && kind !== "?<!") {
+                // named group, the name is irrelevant for the language
+                const end = ctx.chars.indexOf(">", ctx.pos);
+                if (end < 0) fail(ctx, "Unterminated group name");
+                ctx.pos = end + 1;
+            } else {
+                return fail(ctx, "Lookaround assertions are not supported");
+            }
+        }
+        const r = parseAlternative(ctx);
+        if (peek(ctx) !== ")") fail(ctx, "Missing closing parenthesis", ["')'"]);
+        ctx.pos++;
+        return r;
+    }
+    if (c === "[") return charUnion(parseClass(ctx));
+    if (c === ".") {
+        ctx.pos++;
+        return charUnion(complement(ctx, LINE_TERMINATORS, "The wildcard ."));
+    }
+    if (c === "\\") {
+        ctx.pos++;
+        return charUnion(parseEscape(ctx));
+    }
+    if (c === "^" || c === "$") {
+        return fail(ctx, "Anchors are only allowed at the start and the end of the pattern");
+    }
+    if (c === undefined || "*+?{|)".includes(c)) {
+        return fail(ctx, "Expected an expression", ["character", "'('", "'['", "'.'"]);
+    }
+    ctx.pos++;
+    return new CharNode(c);
+}
+
+/** r*, r+, r?, r{m}, r{m,} and r{m,n}; lazy quantifiers mean the same language. */
+function parseQuantified(ctx: JsParseContext): RegExp {
+    let r = parseAtom(ctx);
+    while (true) {
+        const c = peek(ctx);
+        const rest = ctx.chars.slice(ctx.pos).join("");
+        const bounds = /^\{(\d+)(,?)(\d*)\}/.exec(rest);
+        if (c === "*") r = new Star(r);
+        else if (c === "+") r = new Concat(r, new Star(r));
+        else if (c === "?") r = new Union(new Epsilon(), r);
+        else if (bounds) {
+            const [text, low, comma, high] = bounds;
+            const m = Number(low);
+            if (m > MAX_REPETITION || (high !== "" && Number(high) > MAX_REPETITION)) {
+                fail(ctx, `Repetition ${text} exceeds the maximum of ${MAX_REPETITION}`);
+            }
+            const factors: RegExp[] = Array.from({ length: m }, () => r);
+            if (comma === "") r = concatAll(factors);
+            else if (high === "") r = concatAll([...factors, new Star(r)]);
+            else {
+                const n = Number(high);
+                if (n < m) fail(ctx, `Invalid repetition ${text}: ${n} < ${m}`);
+                for (let i = m; i < n; i++) factors.push(new Union(new Epsilon(), r));
+                r = concatAll(factors);
+            }
+            ctx.pos += Array.from(text).length - 1;
+        } else {
+            return r;
+        }
+        ctx.pos++;
+        if (peek(ctx) === "?") ctx.pos++;
+    }
+}
+
+// An unescaped $ as the last character of the pattern; escapes such as \$
+// are consumed by parseEscape and never get here.
+const atEndAnchor = (ctx: JsParseContext): boolean => peek(ctx) === "$" && ctx.pos === ctx.chars.length - 1;
+
+function parseSequence(ctx: JsParseContext): RegExp {
+    const factors: RegExp[] = [];
+    while (peek(ctx) !== undefined && peek(ctx) !== "|" && peek(ctx) !== ")" && !atEndAnchor(ctx)) {
+        factors.push(parseQuantified(ctx));
+    }
+    return concatAll(factors);
+}
+
+parseAlternative = function (ctx: JsParseContext): RegExp {
+    let r = parseSequence(ctx);
+    while (peek(ctx) === "|") {
+        ctx.pos++;
+        r = new Union(r, parseSequence(ctx));
+    }
+    return r;
+};
+
+/**
+ * Translates the regular subset of JavaScript's RegExp syntax: characters
+ * and escapes, classes, `.`, `|`, groups and all quantifiers. Lookaround,
+ * backreferences and word boundaries have no counterpart in our regular
+ * expressions and raise a RegExpSyntaxError.
+ *
+ * The result describes the words the pattern matches as a whole, i.e. as
+ * if it were written ^(?:...)$; a leading ^ and a trailing $ are dropped.
+ * `.`, \D, \W, \S and negated classes need the alphabet Sigma; if it is
+ * given, \d, \w, \s and ranges are restricted to Sigma as well. Only the
+ * flags u and g are accepted, since the others change the language.
+ */
+function fromJsRegExp(source: string | JsRegExp, Sigma?: RecursiveSet<Char>): RegExp {
+    const pattern = typeof source === "string" ? source : source.source;
+    if (typeof source !== "string" && /[^ug]/.test(source.flags)) {
+        throw new Error(`Unsupported flags "${source.flags}", only u and g are allowed`);
+    }
+    const chars = Array.from(pattern);
+    const start = chars[0] === "^" ? 1 : 0;
+
+    const ctx: JsParseContext = { source: pattern, chars, pos: start, Sigma };
+    const r = parseAlternative(ctx);
+    if (atEndAnchor(ctx)) ctx.pos++;
+    if (ctx.pos < ctx.chars.length) fail(ctx, "Unmatched closing parenthesis");
+    return r;
+}
+
+export {
+    toJsRegExp,
+    fromJsRegExp
+}
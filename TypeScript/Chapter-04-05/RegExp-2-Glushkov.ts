@@ -0,0 +1,118 @@
+import { RecursiveSet, RecursiveMap, Tuple } from "recursive-set";
+import { NFA, State, Char, TransRel } from "./01-NFA-2-DFA";
+import {
+    RegExp,
+    EmptySet,
+    Epsilon,
+    CharNode,
+    Variable,
+    Star,
+    Concat,
+    Union
+} from "./03-RegExp-2-NFA";
+
+/**
+ * Position information of a subexpression: whether it is nullable and
+ * which positions can start or end a word of its language.
+ */
+type PosInfo = {
+    nullable: boolean;
+    first: Set<number>;
+    last: Set<number>;
+};
+
+const union = <T>(a: Set<T>, b: Set<T>): Set<T> => new Set([...a, ...b]);
+
+/**
+ * Glushkov's position automaton. Every occurrence of a character in the
+ * regular expression is a position 1, ..., n. The NFA has the states
+ * 0, 1, ..., n where 0 is the start state, and it is free of ε-transitions:
+ * - δ(0, c) contains every position p ∈ first(r) labelled with c,
+ * - δ(p, c) contains every position q ∈ follow(p) labelled with c,
+ * - the accepting states are last(r), plus 0 if r is nullable.
+ */
+class RegExp2Glushkov {
+    private symbolAt: Char[] = [""];
+    private follow: Set<number>[] = [new Set()];
+
+    constructor(private sigma: RecursiveSet<Char>) {}
+
+    public toNFA(r: RegExp): NFA {
+        // position 0 is reserved for the start state
+        this.symbolAt = [""];
+        this.follow = [new Set()];
+        const { nullable, first, last } = this.analyze(r);
+        const n = this.symbolAt.length - 1;
+
+        const edges = new Map<State, Map<Char, State[]>>();
+        const addEdge = (p: State, q: number) => {
+            const c = this.symbolAt[q];
+            const byChar = edges.get(p) ?? new Map<Char, State[]>();
+            edges.set(p, byChar);
+            byChar.set(c, [...(byChar.get(c) ?? []), q]);
+        };
+        for (const q of first) addEdge(0, q);
+        for (let p = 1; p <= n; p++) {
+            for (const q of this.follow[p]) addEdge(p, q);
+        }
+
+        const delta: TransRel = new RecursiveMap<Tuple<[State, Char]>, RecursiveSet<State>>();
+        for (const [p, byChar] of edges) {
+            for (const [c, targets] of byChar) {
+                delta.set(new Tuple(p, c), new RecursiveSet<State>(...targets));
+            }
+        }
+
+        const states = Array.from({ length: n + 1 }, (_, i): State => i);
+        const accepting: State[] = [...last];
+        if (nullable) accepting.push(0);
+
+        return {
+            Q: new RecursiveSet<State>(...states),
+            Σ: this.sigma,
+            δ: delta,
+            q0: 0,
+            A: new RecursiveSet<State>(...accepting),
+        };
+    }
+
+    private analyze(r: RegExp): PosInfo {
+        if (r instanceof EmptySet)
+            return { nullable: false, first: new Set(), last: new Set() };
+        if (r instanceof Epsilon)
+            return { nullable: true, first: new Set(), last: new Set() };
+        if (r instanceof CharNode) {
+            const p = this.symbolAt.length;
+            this.symbolAt.push(r.value);
+            this.follow[p] = new Set();
+            return { nullable: false, first: new Set([p]), last: new Set([p]) };
+        }
+        if (r instanceof Union) {
+            const left = this.analyze(r.left), right = this.analyze(r.right);
+            return {
+                nullable: left.nullable || right.nullable,
+                first: union(left.first, right.first),
+                last: union(left.last, right.last),
+            };
+        }
+        if (r instanceof Concat) {
+            const left = this.analyze(r.left), right = this.analyze(r.right);
+            for (const p of left.last) this.follow[p] = union(this.follow[p], right.first);
+            return {
+                nullable: left.nullable && right.nullable,
+                first: left.nullable ? union(left.first, right.first) : left.first,
+                last: right.nullable ? union(left.last, right.last) : right.last,
+            };
+        }
+        if (r instanceof Star) {
+            const inner = this.analyze(r.inner);
+            for (const p of inner.last) this.follow[p] = union(this.follow[p], inner.first);
+            return { nullable: true, first: inner.first, last: inner.last };
+        }
+        if (r instanceof Variable)
+            throw new Error(`Cannot translate variable ${r.name} into an NFA`);
+        throw new Error(`Unknown RegExp Node: ${r}`);
+    }
+}
+
+export { RegExp2Glushkov }
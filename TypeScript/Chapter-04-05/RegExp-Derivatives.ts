@@ -0,0 +1,143 @@
+import { RecursiveSet, RecursiveMap, Tuple } from "recursive-set";
+import { Char } from "./01-NFA-2-DFA";
+import {
+    RegExp,
+    EmptySet,
+    Epsilon,
+    CharNode,
+    Variable,
+    Star,
+    Concat,
+    Union
+} from "./03-RegExp-2-NFA";
+import { simplify } from "./Rewrite";
+import { GenericDFA } from "./FSM-2-Dot";
+import { Word } from "./FSM-Run";
+
+// ============================================================================
+// 1. NULLABILITY AND DERIVATIVES
+// ============================================================================
+
+/**
+ * nullable(r) is true iff the empty word ε is an element of L(r).
+ */
+function nullable(r: RegExp): boolean {
+    if (r instanceof EmptySet) return false;
+    if (r instanceof Epsilon) return true;
+    if (r instanceof CharNode) return false;
+    if (r instanceof Star) return true;
+    if (r instanceof Concat) return nullable(r.left) && nullable(r.right);
+    if (r instanceof Union) return nullable(r.left) || nullable(r.right);
+    if (r instanceof Variable) throw new Error(`Variable ${r.name} has no language`);
+    throw new Error(`Unknown RegExp Node: ${r}`);
+}
+
+// Smart constructors that keep derivatives small: ∅ and ε are removed
+// wherever the algebraic laws allow it. Unions are flattened, sorted and
+// freed of duplicates, which guarantees that every regular expression has
+// only finitely many derivatives (Brzozowski 1964).
+function summands(r: RegExp): RegExp[] {
+    if (r instanceof Union) return [...summands(r.left), ...summands(r.right)];
+    if (r instanceof EmptySet) return [];
+    return [r];
+}
+
+function union(left: RegExp, right: RegExp): RegExp {
+    const terms = new RecursiveSet<RegExp>(...summands(left), ...summands(right));
+    const sorted = [...terms].sort(RecursiveSet.compareVisual);
+    if (sorted.length === 0) return new EmptySet();
+    return sorted.reduce((l, r) => new Union(l, r));
+}
+
+function concat(left: RegExp, right: RegExp): RegExp {
+    if (left instanceof EmptySet || right instanceof EmptySet) return new EmptySet();
+    if (left instanceof Epsilon) return right;
+    if (right instanceof Epsilon) return left;
+    return new Concat(left, right);
+}
+
+/**
+ * The Brzozowski derivative of r with respect to c, i.e. a regular
+ * expression for the language { w | cw ∈ L(r) }.
+ */
+function derive(r: RegExp, c: Char): RegExp {
+    if (r instanceof EmptySet || r instanceof Epsilon) return new EmptySet();
+    if (r instanceof CharNode) return r.value === c ? new Epsilon() : new EmptySet();
+    if (r instanceof Union) return union(derive(r.left, c), derive(r.right, c));
+    if (r instanceof Concat) {
+        const d = concat(derive(r.left, c), r.right);
+        return nullable(r.left) ? union(d, derive(r.right, c)) : d;
+    }
+    if (r instanceof Star) return concat(derive(r.inner, c), r);
+    if (r instanceof Variable) throw new Error(`Cannot derive variable ${r.name}`);
+    throw new Error(`Unknown RegExp Node: ${r}`);
+}
+
+/**
+ * Decides w ∈ L(r) by deriving r with respect to every symbol of w.
+ * No automaton is built.
+ */
+function matches(r: RegExp, w: Word): boolean {
+    let current = r;
+    for (const c of typeof w === "string" ? Array.from(w) : w) {
+        current = derive(current, c);
+        if (current instanceof EmptySet) return false;
+    }
+    return nullable(current);
+}
+
+// ============================================================================
+// 2. DERIVATIVE AUTOMATON
+// ============================================================================
+
+type DerivativeOptions = {
+    /** abort the construction once more states than this are discovered */
+    maxStates?: number;
+};
+
+/**
+ * Builds a DFA whose states are the derivatives of r. The start state is
+ * r itself, δ(s, c) = derive(s, c), and a state is accepting iff it is
+ * nullable. Every state is normalized with `simplify` from Rewrite.ts,
+ * so that derivatives which differ only syntactically share one state.
+ */
+function derivativeDFA(
+    r: RegExp,
+    Sigma: RecursiveSet<Char>,
+    options: DerivativeOptions = {},
+): GenericDFA<RegExp> {
+    const { maxStates } = options;
+    const start = simplify(r);
+    const Q = new RecursiveSet<RegExp>(start);
+    const δ = new RecursiveMap<Tuple<[RegExp, Char]>, RegExp>();
+    const worklist: RegExp[] = [start];
+
+    for (let i = 0; i < worklist.length; i++) {
+        const s = worklist[i];
+        for (const c of Sigma) {
+            const next = simplify(derive(s, c));
+            δ.set(new Tuple(s, c), next);
+            if (Q.has(next)) continue;
+            if (maxStates !== undefined && Q.size >= maxStates) {
+                throw new Error(
+                    `Derivative construction exceeded the budget of ${maxStates} states`,
+                );
+            }
+            Q.add(next);
+            worklist.push(next);
+        }
+    }
+
+    const A = new RecursiveSet<RegExp>();
+    for (const s of Q) if (nullable(s)) A.add(s);
+
+    return { Q, Σ: Sigma, δ, q0: start, A };
+}
+
+export {
+    nullable,
+    derive,
+    matches,
+    derivativeDFA,
+    DerivativeOptions
+}
@@ -1,45 +1,251 @@
+import { RecursiveSet } from "recursive-set";
+import { Char } from "./01-NFA-2-DFA";
 import {
     RegExp,
     EmptySet,
     Epsilon,
     CharNode,
+    Variable,
     Star,
     Concat,
     Union
 } from "./03-RegExp-2-NFA";
 
+// Every token remembers its offset in the source string.
+// Characters the tokenizer does not know are passed on as invalid tokens.
+type Token = {
+    text: string;
+    pos: number;
+    invalid?: true;
+};
+
 type ParseTree = RegExp;
-type ParseResult = [ParseTree, string[]];
+type ParseResult = [ParseTree, Token[]];
+
+type ParseContext = {
+    source: string;
+    // The alphabet is only needed for the wildcard '.' and negated classes.
+    Sigma?: RecursiveSet<Char>;
+    // If present, errors are collected here instead of being thrown.
+    errors?: RegExpSyntaxError[];
+    // In rule patterns the uppercase letters A-Z are variables.
+    variables?: boolean;
+    // Only source.slice(start, end) is parsed; offsets still refer to source.
+    range?: [number, number];
+};
+
+const ATOM_START = [
+    "a letter", "a digit", "'('", "'∅'", "'ε'", "'.'", "'['", "'\\'",
+];
+const POSTFIX = ["'*'", "'?'", "'{'"];
+const REPETITION = ["'{m}'", "'{m,}'", "'{m,n}'"];
+
+// r{m,n} is expanded into copies of r, so the bounds have to stay small.
+const MAX_REPETITION = 1000;
+// A class range such as [a-z] is expanded into its characters as well.
+const MAX_CLASS_RANGE = 1000;
+
+class RegExpSyntaxError extends Error {
+    constructor(
+        readonly source: string,
+        readonly offset: number,
+        readonly found: string,
+        readonly expected: string[],
+        readonly detail: string,
+    ) {
+        super();
+        this.name = "RegExpSyntaxError";
+        const hint = expected.length > 0 ? `; expected ${expected.join(", ")}` : "";
+        this.message =
+            `Parse Error at column ${this.column}: ${detail}${hint}\n${this.excerpt}`;
+    }
 
-function error(msg: string, tokens: string[]): never {
-    throw new Error(
-        `Parse Error: ${msg}. Remaining tokens: ${JSON.stringify(tokens)}`,
+    /** 1-based column of the offending token */
+    get column(): number {
+        return this.offset + 1;
+    }
+
+    /** the source (or a window of it) with a caret under the offending token */
+    get excerpt(): string {
+        const width = 60;
+        const start = Math.max(0, this.offset - width / 2);
+        const end = Math.min(this.source.length, start + width);
+        const prefix = start > 0 ? "..." : "";
+        const suffix = end < this.source.length ? "..." : "";
+        const line = prefix + this.source.slice(start, end) + suffix;
+        const caret = " ".repeat(prefix.length + this.offset - start) + "^";
+        return `  ${line}\n  ${caret}`;
+    }
+}
+
+/**
+ * Reports an error at the given token (or at the end of the input).
+ * Without an error list in the context the error is thrown immediately.
+ */
+function report(
+    ctx: ParseContext,
+    at: Token | undefined,
+    detail: string,
+    expected: string[] = [],
+): void {
+    const err = new RegExpSyntaxError(
+        ctx.source,
+        at ? at.pos : ctx.range?.[1] ?? ctx.source.length,
+        at ? at.text : "end of input",
+        expected,
+        detail,
     );
+    if (!ctx.errors) throw err;
+    // one error per position is enough, recovery may hit a token twice
+    const last = ctx.errors[ctx.errors.length - 1];
+    if (last === undefined || last.offset !== err.offset) ctx.errors.push(err);
 }
 
-let parseRegExp: (tokens: string[]) => ParseResult;
-let parseProduct: (tokens: string[]) => ParseResult;
-let parseFactor: (tokens: string[]) => ParseResult;
-let parseAtom: (tokens: string[]) => ParseResult;
+let parseRegExp: (tokens: Token[], ctx: ParseContext) => ParseResult;
+let parseProduct: (tokens: Token[], ctx: ParseContext) => ParseResult;
+let parseFactor: (tokens: Token[], ctx: ParseContext) => ParseResult;
+let parseAtom: (tokens: Token[], ctx: ParseContext) => ParseResult;
 
 parseRegExp = () => { throw "Not implemented"; };
 parseProduct = () => { throw "Not implemented"; };
 parseFactor = () => { throw "Not implemented"; };
 parseAtom = () => { throw "Not implemented"; };
 
-function tokenize(s: string): string[] {
-    const tokenRegex = /[+*()]|[a-zA-Z]|∅|ε/g;
-    const matches = s.match(tokenRegex);
+/**
+ * Besides the operators and single letters, the tokenizer recognizes
+ * - digits,
+ * - escaped characters such as `\+` or `\(`,
+ * - character classes `[a-c]` and negated classes `[^ab]` as one token,
+ * - the wildcard `.`, the optional operator `?`,
+ * - an explicit concatenation `⋅` as in a⋅b,
+ * - bounded repetitions `{m}`, `{m,}` and `{m,n}` as one token.
+ * White space is skipped, every other character becomes an invalid token.
+ */
+function tokenize(s: string): Token[] {
+    const tokenRegex =
+        /(\s+)|(\\[\s\S]|\[\^?(?:\\[\s\S]|[^\]\\])*\]|\{\d+(?:,\d*)?\}|[+*?().]|[a-zA-Z0-9]|∅|ε|⋅)|([\s\S])/gu;
+    const tokens: Token[] = [];
+
+    let m: RegExpExecArray | null;
+    while ((m = tokenRegex.exec(s)) !== null) {
+        const [, space, token, unknown] = m;
+        if (space !== undefined) continue;
+        if (token !== undefined) tokens.push({ text: token, pos: m.index });
+        else tokens.push({ text: unknown, pos: m.index, invalid: true });
+    }
+    return tokens;
+}
+
+// ============================================================================
+// Desugaring helpers
+// ============================================================================
+
+// Builds c1 + c2 + ... + cn, nested to the left like the parser does.
+function charUnion(chars: Char[]): RegExp {
+    if (chars.length === 0) return new EmptySet();
+    return chars
+        .map((c): RegExp => new CharNode(c))
+        .reduce((left, right) => new Union(left, right));
+}
+
+function sortedChars(chars: Iterable<Char>): Char[] {
+    return [...new Set(chars)].sort(
+        (x, y) => x.codePointAt(0)! - y.codePointAt(0)!,
+    );
+}
+
+function requireSigma(ctx: ParseContext, what: string, at: Token): RecursiveSet<Char> | undefined {
+    if (ctx.Sigma === undefined) {
+        report(ctx, at, `${what} requires an alphabet Σ to be passed to parse`);
+    }
+    return ctx.Sigma;
+}
+
+/**
+ * Expands a class token such as `[a-cx]` or `[^ab]` into the list of
+ * characters it denotes. Negated classes are taken relative to Σ. A range
+ * may span at most MAX_CLASS_RANGE characters.
+ */
+function classChars(token: Token, ctx: ParseContext): Char[] {
+    const negated = token.text.startsWith("[^");
+    const body = Array.from(token.text.slice(negated ? 2 : 1, -1));
+
+    const items: { c: Char; escaped: boolean }[] = [];
+    for (let i = 0; i < body.length; i++) {
+        if (body[i] === "\\" && i + 1 < body.length) {
+            items.push({ c: body[++i], escaped: true });
+        } else {
+            items.push({ c: body[i], escaped: false });
+        }
+    }
+
+    // an unescaped '-' between two items denotes a range
+    const isDash = (i: number) =>
+        i < items.length && !items[i].escaped && items[i].c === "-";
 
-    return matches ? matches : [];
+    const chars: Char[] = [];
+    for (let i = 0; i < items.length; i++) {
+        if (isDash(i + 1) && i + 2 < items.length) {
+            const lo = items[i].c, hi = items[i + 2].c;
+            const from = lo.codePointAt(0)!, to = hi.codePointAt(0)!;
+            if (from > to) report(ctx, token, `Invalid range '${lo}-${hi}' in ${token.text}`);
+            if (to - from >= MAX_CLASS_RANGE) {
+                report(ctx, token, `Range '${lo}-${hi}' in ${token.text} exceeds the maximum of ${MAX_CLASS_RANGE} characters`);
+            } else {
+                for (let p = from; p <= to; p++) chars.push(String.fromCodePoint(p));
+            }
+            i += 2;
+        } else {
+            chars.push(items[i].c);
+        }
+    }
+
+    if (!negated) return sortedChars(chars);
+    const Sigma = requireSigma(ctx, `Negated class ${token.text}`, token);
+    const excluded = new Set(chars);
+    return sortedChars([...(Sigma ?? [])].filter(c => !excluded.has(c)));
+}
+
+function concatAll(factors: RegExp[]): RegExp {
+    if (factors.length === 0) return new Epsilon();
+    return factors.reduce((left, right) => new Concat(left, right));
 }
 
-parseRegExp = function (tokens: string[]): ParseResult {
-    let [result, rest] = parseProduct(tokens);
+/**
+ * r{m} = r...r (m times), r{m,} = r{m}r*, r{m,n} = r{m}(ε+r)...(ε+r)
+ * with n - m optional copies.
+ */
+function repeat(r: RegExp, token: Token, ctx: ParseContext): RegExp {
+    const [, low, comma, high] = /^\{(\d+)(,?)(\d*)\}$/.exec(token.text)!;
+    const m = Number(low);
+    const n = Number(high);
+    if (m > MAX_REPETITION || (high !== "" && n > MAX_REPETITION)) {
+        report(ctx, token, `Repetition ${token.text} exceeds the maximum of ${MAX_REPETITION}`);
+        return r;
+    }
+    const factors: RegExp[] = Array.from({ length: m }, () => r);
+
+    if (comma === "") return concatAll(factors);
+    if (high === "") return concatAll([...factors, new Star(r)]);
 
-    while (rest.length > 0 && rest[0] === "+") {
+    if (n < m) {
+        report(ctx, token, `Invalid repetition ${token.text}: ${n} < ${m}`);
+        return r;
+    }
+    for (let i = m; i < n; i++) factors.push(new Union(new Epsilon(), r));
+    return concatAll(factors);
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+parseRegExp = function (tokens: Token[], ctx: ParseContext): ParseResult {
+    let [result, rest] = parseProduct(tokens, ctx);
+
+    while (rest.length > 0 && rest[0].text === "+") {
         const nextTokens = rest.slice(1);
-        const [right, rightRest] = parseProduct(nextTokens);
+        const [right, rightRest] = parseProduct(nextTokens, ctx);
 
         result = new Union(result, right);
         rest = rightRest;
@@ -48,13 +254,20 @@ parseRegExp = function (tokens: string[]): ParseResult {
     return [result, rest];
 };
 
-parseProduct = function (tokens: string[]): ParseResult {
-    let [result, rest] = parseFactor(tokens);
+// Invalid tokens count as atom starts so that parseAtom reports them.
+const isAtomStart = (t: Token) =>
+    t.invalid === true ||
+    /^[a-zA-Z0-9(∅ε.]$/.test(t.text) ||
+    t.text.startsWith("[") ||
+    t.text.startsWith("\\");
 
-    const isAtomStart = (t: string) => /^[a-zA-Z(∅ε]$/.test(t);
+parseProduct = function (tokens: Token[], ctx: ParseContext): ParseResult {
+    let [result, rest] = parseFactor(tokens, ctx);
 
-    while (rest.length > 0 && isAtomStart(rest[0])) {
-        const [right, rightRest] = parseFactor(rest);
+    while (rest.length > 0 && (isAtomStart(rest[0]) || rest[0].text === "⋅")) {
+        // an explicit ⋅ is optional, but it needs a right operand
+        const operand = rest[0].text === "⋅" ? rest.slice(1) : rest;
+        const [right, rightRest] = parseFactor(operand, ctx);
 
         result = new Concat(result, right);
         rest = rightRest;
@@ -63,53 +276,138 @@ parseProduct = function (tokens: string[]): ParseResult {
     return [result, rest];
 };
 
-parseFactor = function (tokens: string[]): ParseResult {
-    let [atom, rest] = parseAtom(tokens);
+// factor → atom ('*' | '?' | '{m,n}')*
+parseFactor = function (tokens: Token[], ctx: ParseContext): ParseResult {
+    let [atom, rest] = parseAtom(tokens, ctx);
 
-    if (rest.length > 0 && rest[0] === "*") {
-        atom = new Star(atom);
+    while (rest.length > 0) {
+        const t = rest[0];
+        if (t.invalid) break;
+        if (t.text === "*") atom = new Star(atom);
+        else if (t.text === "?") atom = new Union(new Epsilon(), atom);
+        else if (t.text.startsWith("{")) atom = repeat(atom, t, ctx);
+        else break;
         rest = rest.slice(1);
     }
 
     return [atom, rest];
 };
 
-parseAtom = function (tokens: string[]): ParseResult {
+parseAtom = function (tokens: Token[], ctx: ParseContext): ParseResult {
     if (tokens.length === 0) {
-        error("Unexpected end of input", tokens);
+        report(ctx, undefined, "Unexpected end of input", ATOM_START);
+        return [new EmptySet(), tokens];
     }
 
     const t = tokens[0];
     const rest = tokens.slice(1);
 
-    if (t === "(") {
-        const [expr, afterExpr] = parseRegExp(rest);
+    // Recovery: skip the offending token and continue with the next atom.
+    const skip = (detail: string, expected: string[] = ATOM_START): ParseResult => {
+        report(ctx, t, detail, expected);
+        if (rest.length > 0 && isAtomStart(rest[0])) return parseAtom(rest, ctx);
+        return [new Epsilon(), rest];
+    };
+
+    if (t.invalid) {
+        if (t.text === "[") return skip("Unterminated character class");
+        if (t.text === "{") return skip("Malformed repetition", REPETITION);
+        if (t.text === "\\") return skip("Escape character '\\' at end of input");
+        return skip(`Unexpected character '${t.text}'`);
+    }
+
+    if (t.text === "(") {
+        const [expr, afterExpr] = parseRegExp(rest, ctx);
 
-        if (afterExpr.length === 0 || afterExpr[0] !== ")") {
-            error("Expected ')'", afterExpr);
+        if (afterExpr.length === 0 || afterExpr[0].text !== ")") {
+            report(ctx, afterExpr[0], "Missing ')'", ["')'", "'+'"]);
+            return [expr, afterExpr];
         }
         return [expr, afterExpr.slice(1)];
     }
 
-    if (t === "∅") return [new EmptySet(), rest];
+    if (t.text === "∅") return [new EmptySet(), rest];
 
-    if (t === "ε") return [new Epsilon(), rest];
+    if (t.text === "ε") return [new Epsilon(), rest];
 
-    if (/^[a-zA-Z]$/.test(t)) return [new CharNode(t), rest];
+    if (t.text === ".") {
+        const Sigma = requireSigma(ctx, "The wildcard '.'", t);
+        return [charUnion(sortedChars(Sigma ?? [])), rest];
+    }
+
+    if (t.text.startsWith("[")) return [charUnion(classChars(t, ctx)), rest];
+
+    if (t.text.startsWith("\\")) return [new CharNode(t.text.slice(1)), rest];
+
+    if (ctx.variables && /^[A-Z]$/.test(t.text)) return [new Variable(t.text), rest];
 
-    error(`Unexpected token '${t}'`, tokens);
-    return [new EmptySet(), []];
+    if (/^[a-zA-Z0-9]$/.test(t.text)) return [new CharNode(t.text), rest];
+
+    if (t.text === "*" || t.text === "?" || t.text.startsWith("{")) {
+        return skip(`Operator '${t.text}' has no operand`);
+    }
+
+    // '+' or ')': the operand is missing, do not consume the token
+    report(ctx, t, `Unexpected '${t.text}'`, ATOM_START);
+    return [new EmptySet(), tokens];
 };
 
-function parse(s: string): ParseTree {
-    const tokens = tokenize(s);
-    const [result, rest] = parseRegExp(tokens);
+function parseTokens(ctx: ParseContext): ParseTree {
+    const [start, end] = ctx.range ?? [0, ctx.source.length];
+    const tokens = tokenize(ctx.source.slice(start, end)).map(t => ({ ...t, pos: t.pos + start }));
+    let [result, rest] = parseRegExp(tokens, ctx);
 
-    if (rest.length > 0) {
-        error("Unexpected trailing tokens", rest);
+    // Recovery: drop stray tokens such as an unmatched ')' and go on parsing.
+    while (rest.length > 0) {
+        report(ctx, rest[0], `Unexpected '${rest[0].text}'`, [
+            "'+'", ...POSTFIX, ...ATOM_START, "end of input",
+        ]);
+        rest = rest.slice(1);
+        if (rest.length > 0 && rest[0].text === "+") {
+            const [right, after] = parseRegExp(rest.slice(1), ctx);
+            result = new Union(result, right);
+            rest = after;
+        } else if (rest.length > 0 && isAtomStart(rest[0])) {
+            const [right, after] = parseRegExp(rest, ctx);
+            result = new Concat(result, right);
+            rest = after;
+        }
     }
 
     return result;
 }
 
-export {parse}
\ No newline at end of file
+/**
+ * Parses a regular expression and throws a RegExpSyntaxError at the first
+ * error. The alphabet Σ is optional and only needed for the wildcard `.`
+ * and for negated classes `[^...]`.
+ */
+function parse(s: string, Sigma?: RecursiveSet<Char>): ParseTree {
+    return parseTokens({ source: s, Sigma });
+}
+
+/**
+ * Parses one side of a rewrite rule such as `R + ∅`. The syntax is the
+ * same as for parse, but the uppercase letters A-Z denote variables.
+ * With a range [start, end], only s.slice(start, end) is parsed, while
+ * errors point into the whole string s, e.g. the whole rule.
+ */
+function parsePattern(s: string, Sigma?: RecursiveSet<Char>, range?: [number, number]): ParseTree {
+    return parseTokens({ source: s, Sigma, variables: true, range });
+}
+
+/**
+ * Parses a regular expression and reports every error instead of stopping
+ * at the first one. If there are errors, the returned tree is only a best
+ * effort reconstruction.
+ */
+function parseAll(
+    s: string,
+    Sigma?: RecursiveSet<Char>,
+): { result: ParseTree; errors: RegExpSyntaxError[] } {
+    const errors: RegExpSyntaxError[] = [];
+    const result = parseTokens({ source: s, Sigma, errors });
+    return { result, errors };
+}
+
+export { parse, parsePattern, parseAll, tokenize, Token, RegExpSyntaxError, MAX_REPETITION }
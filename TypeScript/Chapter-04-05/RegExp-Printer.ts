@@ -0,0 +1,113 @@
+import { RegExp, EmptySet, Epsilon, CharNode, Variable, Star, Concat, Union } from "./03-RegExp-2-NFA";
+
+/*
+ * Printing regular expressions with as few parentheses as possible.
+ * The operators bind as in RegExp-Parser: * binds stronger than ⋅, and ⋅
+ * stronger than +. Both binary operators associate to the left, so a
+ * right operand of the same operator keeps its parentheses. This way the
+ * "course" and "explicit" output parses back to the very same tree.
+ */
+
+/**
+ * - "course":   the notation of the lecture, e.g. (a+b)*c
+ * - "explicit": concatenation written as ⋅, e.g. (a+b)*⋅c
+ * - "latex":    math mode LaTeX, e.g. (\mathtt{a} + \mathtt{b})^{*} \mathtt{c}
+ * - "html":     course notation with <sup>*</sup> and escaped characters
+ */
+type PrintStyle = "course" | "explicit" | "latex" | "html";
+
+type PrintOptions = {
+    style?: PrintStyle;
+    /** path of a subterm to highlight: 0 is the left operand (or the operand of *), 1 the right one */
+    marked?: number[];
+};
+
+type Notation = {
+    empty: string;
+    epsilon: string;
+    char: (c: string) => string;
+    star: (inner: string) => string;
+    concat: string;
+    union: string;
+    group: (s: string) => string;
+    mark: (s: string) => string;
+};
+
+// Characters that are not letters or digits are escaped for the parser.
+const courseChar = (c: string): string => (/^[a-zA-Z0-9]$/.test(c) ? c : `\\${c}`);
+
+const htmlEscape = (s: string): string =>
+    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const latexChar = (c: string): string =>
+    /^[a-zA-Z0-9]$/.test(c) ? `\\mathtt{${c}}` : `\\texttt{\\char${c.codePointAt(0)}}`;
+
+const COURSE: Notation = {
+    empty: "∅",
+    epsilon: "ε",
+    char: courseChar,
+    star: s => `${s}*`,
+    concat: "",
+    union: "+",
+    group: s => `(${s})`,
+    mark: s => `⟦${s}⟧`,
+};
+
+const NOTATIONS: Record<PrintStyle, Notation> = {
+    course: COURSE,
+    explicit: { ...COURSE, concat: "⋅" },
+    latex: {
+        empty: "\\emptyset",
+        epsilon: "\\varepsilon",
+        char: latexChar,
+        // the braces keep a** from becoming a double superscript
+        star: s => `{${s}}^{*}`,
+        concat: " ",
+        union: " + ",
+        group: s => `(${s})`,
+        mark: s => `\\colorbox{yellow}{$${s}$}`,
+    },
+    html: {
+        ...COURSE,
+        char: c => htmlEscape(courseChar(c)),
+        star: s => `${s}<sup>*</sup>`,
+        mark: s => `<mark>${s}</mark>`,
+    },
+};
+
+// + < ⋅ < * < atoms
+function precedence(r: RegExp): number {
+    if (r instanceof Union) return 1;
+    if (r instanceof Concat) return 2;
+    if (r instanceof Star) return 3;
+    return 4;
+}
+
+function print(r: RegExp, minPrecedence: number, n: Notation, marked: number[] | null): string {
+    const child = (i: number): number[] | null =>
+        marked !== null && marked.length > 0 && marked[0] === i ? marked.slice(1) : null;
+
+    let s: string;
+    if (r instanceof EmptySet) s = n.empty;
+    else if (r instanceof Epsilon) s = n.epsilon;
+    else if (r instanceof CharNode) s = n.char(r.value);
+    else if (r instanceof Variable) s = r.name;
+    else if (r instanceof Star) s = n.star(print(r.inner, 3, n, child(0)));
+    else if (r instanceof Concat) s = print(r.left, 2, n, child(0)) + n.concat + print(r.right, 3, n, child(1));
+    else if (r instanceof Union) s = print(r.left, 1, n, child(0)) + n.union + print(r.right, 2, n, child(1));
+    else s = "?";
+
+    if (precedence(r) < minPrecedence) s = n.group(s);
+    return marked !== null && marked.length === 0 ? n.mark(s) : s;
+}
+
+function printRegExp(r: RegExp, options: PrintOptions = {}): string {
+    const { style = "course", marked } = options;
+    return print(r, 0, NOTATIONS[style], marked ?? null);
+}
+
+export {
+    PrintStyle,
+    PrintOptions,
+    printRegExp
+}
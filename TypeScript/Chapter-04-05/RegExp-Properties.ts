@@ -0,0 +1,263 @@
+import { Structural, RecursiveSet } from "recursive-set";
+import { Char, nfa2dfa } from "./01-NFA-2-DFA";
+import {
+    RegExp,
+    RegExp2NFA,
+    EmptySet,
+    Epsilon,
+    CharNode,
+    Star,
+    Concat,
+    Union
+} from "./03-RegExp-2-NFA";
+import { dfa2regexp } from "./05-DFA-2-RegExp";
+import { minimize } from "./07-Minimize";
+import { regexp2DFA, fsm_symmetric_difference, findWitness } from "./09-Equivalence";
+import { GenericDFA } from "./FSM-2-Dot";
+import { acceptsDFA } from "./FSM-Run";
+import { matches } from "./RegExp-Derivatives";
+import { parse } from "./RegExp-Parser";
+import { simplify, regexpToString } from "./Rewrite";
+
+// ============================================================================
+// 1. SEEDED RANDOM REGULAR EXPRESSIONS
+// ============================================================================
+
+/**
+ * A small, fast pseudo random number generator (mulberry32). The same seed
+ * always yields the same sequence, so every failure can be reproduced.
+ */
+function mulberry32(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * A random regular expression of at most the given depth. Leaves are
+ * mostly characters of Σ, sometimes ε and rarely ∅.
+ */
+function randomRegExp(random: () => number, Sigma: RecursiveSet<Char>, depth: number): RegExp {
+    const chars = [...Sigma].sort();
+    const pick = <T>(xs: T[]): T => xs[Math.floor(random() * xs.length)];
+
+    const leaf = (): RegExp => {
+        const x = random();
+        if (x < 0.05) return new EmptySet();
+        if (x < 0.2) return new Epsilon();
+        return new CharNode(pick(chars));
+    };
+    const generate = (d: number): RegExp => {
+        if (d === 0 || random() < 0.25) return leaf();
+        const x = random();
+        if (x < 0.2) return new Star(generate(d - 1));
+        if (x < 0.6) return new Concat(generate(d - 1), generate(d - 1));
+        return new Union(generate(d - 1), generate(d - 1));
+    };
+    return generate(depth);
+}
+
+// ============================================================================
+// 2. PROPERTIES
+// ============================================================================
+
+/**
+ * A property of a regular expression. `check` returns null if it holds,
+ * and otherwise a word on which two languages that should be equal
+ * differ ("ε" for the empty word).
+ */
+type Property = {
+    name: string;
+    check: (r: RegExp, Sigma: RecursiveSet<Char>) => string | null;
+};
+
+// A word in the symmetric difference of L(F1) and L(F2), if there is one.
+function difference<S1 extends Structural, S2 extends Structural>(F1: GenericDFA<S1>, F2: GenericDFA<S2>): string | null {
+    return findWitness(fsm_symmetric_difference(F1, F2));
+}
+
+// All words over Σ with at most n characters, in shortlex order.
+function wordsUpTo(Sigma: RecursiveSet<Char>, n: number): Char[][] {
+    const chars = [...Sigma].sort();
+    let layer: Char[][] = [[]];
+    const words: Char[][] = [[]];
+    for (let i = 0; i < n; i++) {
+        const next: Char[][] = [];
+        for (const w of layer) for (const c of chars) next.push([...w, c]);
+        layer = next;
+        words.push(...layer);
+    }
+    return words;
+}
+
+/**
+ * The built-in properties. Thompson's construction is checked against
+ * derivative matching on all short words, since every other check relies
+ * on the DFA it produces. The remaining transformations are compared with
+ * this DFA exactly, using the product construction.
+ */
+function pipelineProperties(maxWordLength = 5): Property[] {
+    return [
+        {
+            name: "RegExp2NFA + nfa2dfa",
+            check: (r, Sigma) => {
+                const F = nfa2dfa(new RegExp2NFA(Sigma).toNFA(r));
+                const w = wordsUpTo(Sigma, maxWordLength).find(w => acceptsDFA(F, w) !== matches(r, w));
+                return w === undefined ? null : w.length === 0 ? "ε" : w.join("");
+            },
+        },
+        {
+            name: "minimize",
+            check: (r, Sigma) => {
+                const F = regexp2DFA(r, Sigma);
+                return difference(F, minimize(F));
+            },
+        },
+        {
+            name: "dfa2regexp",
+            check: (r, Sigma) => {
+                const F = regexp2DFA(r, Sigma);
+                return difference(F, regexp2DFA(dfa2regexp(F), Sigma));
+            },
+        },
+        {
+            name: "simplify",
+            check: (r, Sigma) => difference(regexp2DFA(r, Sigma), regexp2DFA(simplify(r), Sigma)),
+        },
+        {
+            name: "regexpToString + parse",
+            check: (r, Sigma) => difference(regexp2DFA(r, Sigma), regexp2DFA(parse(regexpToString(r), Sigma), Sigma)),
+        },
+    ];
+}
+
+// An exception is a failure as well, reported without a word.
+function failure(property: Property, r: RegExp, Sigma: RecursiveSet<Char>): { witness: string | null; error?: string } | null {
+    try {
+        const witness = property.check(r, Sigma);
+        return witness === null ? null : { witness };
+    } catch (e) {
+        return { witness: null, error: e instanceof Error ? e.message : String(e) };
+    }
+}
+
+// ============================================================================
+// 3. SHRINKING
+// ============================================================================
+
+function size(r: RegExp): number {
+    if (r instanceof Star) return 1 + size(r.inner);
+    if (r instanceof Concat || r instanceof Union) return 1 + size(r.left) + size(r.right);
+    return 1;
+}
+
+/**
+ * Smaller variants of r: its children, the atoms ∅ and ε, and r with one
+ * child replaced by one of its own smaller variants.
+ */
+function shrinkCandidates(r: RegExp): RegExp[] {
+    const atoms: RegExp[] = r instanceof EmptySet ? [] : r instanceof Epsilon ? [new EmptySet()] : [new EmptySet(), new Epsilon()];
+    if (r instanceof Star) {
+        return [r.inner, ...atoms, ...shrinkCandidates(r.inner).map(s => new Star(s))];
+    }
+    if (r instanceof Concat || r instanceof Union) {
+        const make = (left: RegExp, right: RegExp): RegExp =>
+            r instanceof Concat ? new Concat(left, right) : new Union(left, right);
+        return [
+            r.left,
+            r.right,
+            ...atoms,
+            ...shrinkCandidates(r.left).map(s => make(s, r.right)),
+            ...shrinkCandidates(r.right).map(s => make(r.left, s)),
+        ];
+    }
+    return atoms;
+}
+
+/**
+ * Greedily replaces r by the first smaller variant that still fails,
+ * until no variant fails any more.
+ */
+function shrink(property: Property, r: RegExp, Sigma: RecursiveSet<Char>): RegExp {
+    let current = r;
+    while (true) {
+        const next = shrinkCandidates(current)
+            .find(s => size(s) < size(current) && failure(property, s, Sigma) !== null);
+        if (next === undefined) return current;
+        current = next;
+    }
+}
+
+// ============================================================================
+// 4. RUNNING
+// ============================================================================
+
+type PropertyOptions = {
+    /** seed of the first run; run i uses seed + i */
+    seed?: number;
+    /** number of random regular expressions */
+    runs?: number;
+    /** maximal depth of the random regular expressions */
+    maxDepth?: number;
+    /** the properties to check, pipelineProperties() by default */
+    properties?: Property[];
+};
+
+type PropertyFailure = {
+    property: string;
+    seed: number;
+    original: RegExp;
+    shrunk: RegExp;
+    /** a word on which the languages differ for the shrunk expression */
+    witness: string | null;
+    error?: string;
+};
+
+/**
+ * Checks every property on `runs` random regular expressions over Σ. For
+ * each property only the first failure is shrunk and reported.
+ */
+function checkProperties(Sigma: RecursiveSet<Char>, options: PropertyOptions = {}): PropertyFailure[] {
+    const { seed = 1, runs = 100, maxDepth = 4, properties = pipelineProperties() } = options;
+    const failures: PropertyFailure[] = [];
+    const open = new Set(properties);
+
+    for (let i = 0; i < runs && open.size > 0; i++) {
+        const r = randomRegExp(mulberry32(seed + i), Sigma, maxDepth);
+        for (const property of [...open]) {
+            if (failure(property, r, Sigma) === null) continue;
+            const shrunk = shrink(property, r, Sigma);
+            failures.push({ property: property.name, seed: seed + i, original: r, shrunk, ...failure(property, shrunk, Sigma)! });
+            open.delete(property);
+        }
+    }
+    return failures;
+}
+
+function failure2string(f: PropertyFailure): string {
+    const lines = [
+        `${f.property} fails for seed ${f.seed}`,
+        `  original: ${regexpToString(f.original)}`,
+        `  shrunk:   ${regexpToString(f.shrunk)}`,
+    ];
+    if (f.witness !== null) lines.push(`  witness:  ${f.witness}`);
+    if (f.error !== undefined) lines.push(`  error:    ${f.error}`);
+    return lines.join("\n");
+}
+
+export {
+    mulberry32,
+    randomRegExp,
+    Property,
+    pipelineProperties,
+    shrink,
+    PropertyOptions,
+    PropertyFailure,
+    checkProperties,
+    failure2string
+}
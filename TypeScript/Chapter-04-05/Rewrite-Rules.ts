@@ -0,0 +1,148 @@
+import { RecursiveSet } from "recursive-set";
+import { Char } from "./01-NFA-2-DFA";
+import { RegExp, Variable, CharNode, Star, Concat, Union } from "./03-RegExp-2-NFA";
+import { regexp2DFA, fsm_symmetric_difference, findWitness } from "./09-Equivalence";
+import { parsePattern } from "./RegExp-Parser";
+import { Rule, regexpToString } from "./Rewrite";
+
+/*
+ * Rewrite rules as text, one rule per line:
+ *
+ *     R + ∅ => R
+ *     (R*)* => R*      // comments start with //
+ *
+ * Both sides use the syntax of RegExp-Parser, the uppercase letters A-Z
+ * are variables. Every rule is checked before it is used.
+ */
+
+/**
+ * A rule whose two sides denote different languages. `instance` is the
+ * rule with every variable replaced by a fresh letter, and `witness` is a
+ * word that belongs to exactly one side of this instance.
+ */
+class UnsoundRuleError extends Error {
+    constructor(
+        readonly rule: Rule,
+        readonly instance: Rule,
+        readonly witness: string,
+    ) {
+        super(
+            `Unsound rule ${ruleToString(rule)}: the instance ${ruleToString(instance)} ` +
+            `is wrong for the word ${witness}`
+        );
+        this.name = "UnsoundRuleError";
+    }
+}
+
+function ruleToString([lhs, rhs]: Rule): string {
+    return `${regexpToString(lhs)} => ${regexpToString(rhs)}`;
+}
+
+function variables(r: RegExp, names: Set<string> = new Set()): Set<string> {
+    if (r instanceof Variable) names.add(r.name);
+    if (r instanceof Star) variables(r.inner, names);
+    if (r instanceof Concat || r instanceof Union) {
+        variables(r.left, names);
+        variables(r.right, names);
+    }
+    return names;
+}
+
+function characters(r: RegExp, chars: Set<Char> = new Set()): Set<Char> {
+    if (r instanceof CharNode) chars.add(r.value);
+    if (r instanceof Star) characters(r.inner, chars);
+    if (r instanceof Concat || r instanceof Union) {
+        characters(r.left, chars);
+        characters(r.right, chars);
+    }
+    return chars;
+}
+
+function instantiate(r: RegExp, letters: Map<string, Char>): RegExp {
+    if (r instanceof Variable) return new CharNode(letters.get(r.name)!);
+    if (r instanceof Star) return new Star(instantiate(r.inner, letters));
+    if (r instanceof Concat) return new Concat(instantiate(r.left, letters), instantiate(r.right, letters));
+    if (r instanceof Union) return new Union(instantiate(r.left, letters), instantiate(r.right, letters));
+    return r;
+}
+
+/**
+ * Checks that both sides of the rule denote the same language for every
+ * choice of the variables. It suffices to replace every variable by its
+ * own fresh letter: an equation that holds for these letters holds for
+ * all regular expressions, since substituting languages for letters
+ * preserves ∪, ⋅ and *. Returns null for a sound rule and otherwise the
+ * instance together with a counterexample.
+ */
+function checkRule(rule: Rule): { instance: Rule; witness: string } | null {
+    const [lhs, rhs] = rule;
+    const used = new Set([...characters(lhs), ...characters(rhs)]);
+    const fresh = Array.from("abcdefghijklmnopqrstuvwxyz0123456789").filter(c => !used.has(c));
+
+    const letters = new Map<string, Char>();
+    for (const name of [...variables(lhs), ...variables(rhs)].sort()) {
+        if (letters.has(name)) continue;
+        if (fresh.length === 0) throw new Error(`Too many variables in ${ruleToString(rule)}`);
+        letters.set(name, fresh.shift()!);
+    }
+
+    const instance: Rule = [instantiate(lhs, letters), instantiate(rhs, letters)];
+    const Sigma = new RecursiveSet<Char>(...used, ...letters.values());
+    const F1 = regexp2DFA(instance[0], Sigma), F2 = regexp2DFA(instance[1], Sigma);
+    const witness = findWitness(fsm_symmetric_difference(F1, F2));
+    return witness === null ? null : { instance, witness };
+}
+
+/**
+ * Parses a rule "lhs => rhs" and rejects it if it is unsound or if its
+ * right side uses a variable that the left side does not bind.
+ */
+function parseRule(text: string): Rule {
+    const arrow = text.indexOf("=>");
+    if (arrow < 0) throw new Error(`Missing '=>' in rule ${text}`);
+    // both sides are parsed in place, so syntax errors show the whole rule
+    const rule: Rule = [
+        parsePattern(text, undefined, [0, arrow]),
+        parsePattern(text, undefined, [arrow + 2, text.length]),
+    ];
+
+    const bound = variables(rule[0]);
+    for (const name of variables(rule[1])) {
+        if (!bound.has(name)) {
+            throw new Error(`Variable ${name} of ${ruleToString(rule)} does not occur on the left side`);
+        }
+    }
+
+    const unsound = checkRule(rule);
+    if (unsound !== null) throw new UnsoundRuleError(rule, unsound.instance, unsound.witness);
+    return rule;
+}
+
+/**
+ * Parses a rule set, one rule per line. Empty lines and comments are
+ * skipped. Errors name the line they occur in.
+ */
+function parseRules(text: string): Rule[] {
+    const rules: Rule[] = [];
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const comment = lines[i].indexOf("//");
+        const line = (comment < 0 ? lines[i] : lines[i].slice(0, comment)).trim();
+        if (line === "") continue;
+        try {
+            rules.push(parseRule(line));
+        } catch (e) {
+            if (e instanceof Error) e.message = `line ${i + 1}: ${e.message}`;
+            throw e;
+        }
+    }
+    return rules;
+}
+
+export {
+    UnsoundRuleError,
+    ruleToString,
+    checkRule,
+    parseRule,
+    parseRules
+}
@@ -0,0 +1,71 @@
+import { Rule, RewriteStep } from "./Rewrite";
+import { PrintStyle, printRegExp } from "./RegExp-Printer";
+
+/*
+ * Renders the derivations of simplifyWithTrace. Every step shows the term
+ * before and after the rewrite with the rewritten subterm marked, and the
+ * rule that was applied; "AC" marks the steps that only bring the term
+ * into AC normal form.
+ */
+
+const ARROWS: Record<PrintStyle, string> = {
+    course: "=>",
+    explicit: "=>",
+    latex: "\\Rightarrow",
+    html: "⇒",
+};
+
+function showRule(rule: Rule | null, style: PrintStyle): string {
+    if (rule === null) return "AC";
+    return `${printRegExp(rule[0], { style })} ${ARROWS[style]} ${printRegExp(rule[1], { style })}`;
+}
+
+// AC steps may move every subterm, so nothing is marked for them.
+function showStep(step: RewriteStep, style: PrintStyle): { before: string; after: string; rule: string } {
+    const marked = step.rule === null ? undefined : step.path;
+    return {
+        before: printRegExp(step.before, { style, marked }),
+        after: printRegExp(step.after, { style, marked }),
+        rule: showRule(step.rule, style),
+    };
+}
+
+/**
+ * One line per step:
+ *
+ *     3. ⟦(ε+a)a*⟧b  ⟶  ⟦a*⟧b    [(ε+R)R* => R*]
+ */
+function derivation2string(steps: RewriteStep[]): string {
+    if (steps.length === 0) return "no rule applies";
+    return steps.map((step, i) => {
+        const { before, after, rule } = showStep(step, "course");
+        return `${i + 1}. ${before}  ⟶  ${after}    [${rule}]`;
+    }).join("\n");
+}
+
+/** An align* environment with the rule of every step on the right. */
+function derivation2latex(steps: RewriteStep[]): string {
+    const rows = steps.map(step => {
+        const { before, after, rule } = showStep(step, "latex");
+        return `    ${before} &\\longrightarrow ${after} && ${step.rule === null ? "\\text{AC}" : rule}`;
+    });
+    return ["\\begin{align*}", rows.join(" \\\\\n"), "\\end{align*}"].join("\n");
+}
+
+/** A table with one row per step; the rewritten subterms are <mark>ed. */
+function derivation2html(steps: RewriteStep[]): string {
+    const lines: string[] = [];
+    lines.push(`<table class="rewrite-trace">`);
+    steps.forEach((step, i) => {
+        const { before, after, rule } = showStep(step, "html");
+        lines.push(`  <tr><td>${i + 1}.</td><td>${before}</td><td>→</td><td>${after}</td><td>${rule}</td></tr>`);
+    });
+    lines.push("</table>");
+    return lines.join("\n");
+}
+
+export {
+    derivation2string,
+    derivation2latex,
+    derivation2html
+}
@@ -1,6 +1,7 @@
 import { 
     RegExp, Variable, EmptySet, Epsilon, CharNode, Star, Concat, Union, RegExpNode 
 } from "./03-RegExp-2-NFA";
+import { printRegExp } from "./RegExp-Printer";
 
 // A substitution maps variable names to complete RegExp trees
 type Subst = Map<string, RegExp>;
@@ -38,9 +39,36 @@ function match(pattern: RegExp, term: RegExp, substitution: Subst): boolean {
         }
     }
     if (pattern.constructor !== term.constructor) return false;
+    // ⋅ is associative, so P1⋅P2 may split the factors of the term anywhere,
+    // e.g. T⋅S matches abc with T = a and S = bc as well as T = ab and S = c
+    if (pattern instanceof Concat && term instanceof Concat) {
+        const parts = factors(term);
+        for (let k = 1; k < parts.length; k++) {
+            const attempt: Subst = new Map(substitution);
+            if (match(pattern.left, productOf(parts.slice(0, k)), attempt) &&
+                match(pattern.right, productOf(parts.slice(k)), attempt)) {
+                for (const [name, r] of attempt) substitution.set(name, r);
+                return true;
+            }
+        }
+        return false;
+    }
     if (pattern instanceof Star && term instanceof Star) return match(pattern.inner, term.inner, substitution);    
-    if ((pattern instanceof Concat && term instanceof Concat) || (pattern instanceof Union && term instanceof Union))
-        return match(pattern.left, term.left, substitution) && match(pattern.right, term.right, substitution);
+    // + is associative and commutative, so P1+P2 may split the summands of
+    // the term into any two non-empty parts, e.g. ε+R matches a+ε+b with R = a+b
+    if (pattern instanceof Union && term instanceof Union) {
+        const parts = summands(term);
+        for (let mask = 1; mask < (1 << parts.length) - 1; mask++) {
+            const left = parts.filter((_, k) => (mask >> k) & 1);
+            const right = parts.filter((_, k) => !((mask >> k) & 1));
+            const attempt: Subst = new Map(substitution);
+            if (match(pattern.left, sumOf(left), attempt) && match(pattern.right, sumOf(right), attempt)) {
+                for (const [name, r] of attempt) substitution.set(name, r);
+                return true;
+            }
+        }
+        return false;
+    }
     if (pattern instanceof CharNode && term instanceof CharNode) return pattern.value === term.value;
     return true;
 }
@@ -130,12 +158,13 @@ function T(arg0: DSLInput, arg1?: string, arg2?: DSLInput): RegExp {
 }
 
 // === THE RULES ===
+// Associativity, commutativity and R + R = R are not rules: they are
+// built into the normal form below.
 
 function getRules(): Rule[] {
     const rules: Rule[] = [
         [T("R", "+", 0), T("R")], 
         [T(0, "+", "R"), T("R")],
-        [T("R", "+", "R"), T("R")],
 
         [T("ε", "+", T("R", "*")), T("R", "*")],
         [T(T("R", "*"), "+", "ε"), T("R", "*")],
@@ -163,9 +192,6 @@ function getRules(): Rule[] {
         [T(T("ε", "+", "R"), "*"), T("R", "*")],
         [T(T("R", "+", "ε"), "*"), T("R", "*")],
 
-        [T("R", "+", T("S", "+", "T")), T(T("R", "+", "S"), "+", "T")],
-        [T("R", "⋅", T("S", "⋅", "T")), T(T("R", "⋅", "S"), "⋅", "T")],
-
         [
             T(T("R", "⋅", T("S", "*")), "⋅", T("ε", "+", "S")),
             T("R", "⋅", T("S", "*")),
@@ -174,54 +200,186 @@ function getRules(): Rule[] {
     return rules;
 }
 
+// ============================================================================
+// 4. AC NORMAL FORM
+// ============================================================================
+
+// Fixed order of the node types, used to sort the summands of a union.
+function rank(r: RegExp): number {
+    if (r instanceof EmptySet) return 0;
+    if (r instanceof Epsilon) return 1;
+    if (r instanceof CharNode) return 2;
+    if (r instanceof Variable) return 3;
+    if (r instanceof Star) return 4;
+    if (r instanceof Concat) return 5;
+    return 6;
+}
+
+function compareRegExp(a: RegExp, b: RegExp): number {
+    const d = rank(a) - rank(b);
+    if (d !== 0) return d;
+    if (a instanceof CharNode && b instanceof CharNode)
+        return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+    if (a instanceof Variable && b instanceof Variable)
+        return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+    if (a instanceof Star && b instanceof Star)
+        return compareRegExp(a.inner, b.inner);
+    if ((a instanceof Concat && b instanceof Concat) ||
+        (a instanceof Union && b instanceof Union))
+        return compareRegExp(a.left, b.left) || compareRegExp(a.right, b.right);
+    return 0;
+}
+
+// r1 + r2 + ... + rn as a flat list
+function summands(r: RegExp): RegExp[] {
+    return r instanceof Union ? [...summands(r.left), ...summands(r.right)] : [r];
+}
+
+// r1 ⋅ r2 ⋅ ... ⋅ rn as a flat list
+function factors(r: RegExp): RegExp[] {
+    return r instanceof Concat ? [...factors(r.left), ...factors(r.right)] : [r];
+}
+
+// Both lists are non-empty and are nested to the left: ((r1 + r2) + r3).
+function sumOf(rs: RegExp[]): RegExp {
+    return rs.reduce((left, right) => new Union(left, right));
+}
+
+function productOf(rs: RegExp[]): RegExp {
+    return rs.reduce((left, right) => new Concat(left, right));
+}
+
+/**
+ * The normal form modulo associativity of + and ⋅, commutativity of + and
+ * R + R = R: the summands of a union are sorted and duplicate-free, and
+ * both unions and concatenations are nested to the left. Two expressions
+ * that only differ in these laws have the same normal form.
+ */
+function normalize(r: RegExp): RegExp {
+    if (r instanceof Star) return new Star(normalize(r.inner));
+
+    if (r instanceof Concat) {
+        // normalizing a factor can turn it into a concatenation, e.g. ab + ab
+        const parts = factors(r).map(normalize);
+        return productOf(([] as RegExp[]).concat(...parts.map(factors)));
+    }
+
+    if (r instanceof Union) {
+        const parts = summands(r).map(normalize);
+        const sorted = ([] as RegExp[]).concat(...parts.map(summands)).sort(compareRegExp);
+        return sumOf(sorted.filter((s, i) => i === 0 || compareRegExp(sorted[i - 1], s) !== 0));
+    }
+
+    return r;
+}
+
 // ============================================================================
 // 5. MAIN SIMPLIFICATION ALGORITHM
 // ============================================================================
 
-function simplifyOnce(term: RegExp, rules: Rule[]): RegExp {
-    // 1. Try top-level rewrite
+// The first rule that rewrites the term at the top, if any.
+function rewriteTop(term: RegExp, rules: Rule[]): { rule: Rule; result: RegExp } | undefined {
     for (const rule of rules) {
         const { simplified, result } = rewrite(term, rule);
-        if (simplified) return result;
+        if (simplified) return { rule, result };
     }
+    return undefined;
+}
 
-    // 2. Recurse into children (Inductive Step)
-    // No casting needed: The constructors accept 'RegExp', which includes all nodes.
-    
-    if (term instanceof Star) {
-        return new Star(simplifyOnce(term.inner, rules));
+/**
+ * A position in a term: 0 is the left operand (or the operand of a star),
+ * 1 the right operand of a binary node.
+ */
+type Path = number[];
+
+// A rewrite performed by simplifyOnce: the node at `path` became `result`.
+type Redex = { rule: Rule; path: Path; result: RegExp };
+
+// The path of the k-th of n operands of a flattened, left-nested node.
+function spinePath(path: Path, n: number, k: number): Path {
+    const zeros = Array.from({ length: n - 1 - Math.max(k, 1) }, () => 0);
+    return k === 0 ? [...path, ...zeros, 0] : [...path, ...zeros, 1];
+}
+
+function simplifyOnce(term: RegExp, rules: Rule[], path: Path = [], redexes?: Redex[]): RegExp {
+    // 1. Try top-level rewrite
+    const top = rewriteTop(term, rules);
+    if (top !== undefined) {
+        redexes?.push({ rule: top.rule, path, result: top.result });
+        return top.result;
+    }
+
+    // 2. Binary rules on any two summands of a union, in both orders,
+    //    and on any two adjacent factors of a concatenation
+    if (term instanceof Union) {
+        const parts = summands(term);
+        for (let i = 0; i < parts.length; i++) {
+            for (let j = 0; j < parts.length; j++) {
+                if (i === j) continue;
+                const pair = rewriteTop(new Union(parts[i], parts[j]), rules);
+                if (pair === undefined) continue;
+                const rest = parts.filter((_, k) => k !== i && k !== j);
+                const result = sumOf([...rest, pair.result]);
+                redexes?.push({ rule: pair.rule, path, result });
+                return result;
+            }
+        }
+        // 3. Recurse into the summands
+        return sumOf(parts.map((p, k) => simplifyOnce(p, rules, spinePath(path, parts.length, k), redexes)));
     }
 
     if (term instanceof Concat) {
-        return new Concat(
-            simplifyOnce(term.left, rules),
-            simplifyOnce(term.right, rules)
-        );
+        const parts = factors(term);
+        for (let i = 0; i + 1 < parts.length; i++) {
+            const pair = rewriteTop(new Concat(parts[i], parts[i + 1]), rules);
+            if (pair === undefined) continue;
+            const result = productOf([...parts.slice(0, i), pair.result, ...parts.slice(i + 2)]);
+            redexes?.push({ rule: pair.rule, path, result });
+            return result;
+        }
+        return productOf(parts.map((p, k) => simplifyOnce(p, rules, spinePath(path, parts.length, k), redexes)));
     }
 
-    if (term instanceof Union) {
-        return new Union(
-            simplifyOnce(term.left, rules),
-            simplifyOnce(term.right, rules)
-        );
+    if (term instanceof Star) {
+        return new Star(simplifyOnce(term.inner, rules, [...path, 0], redexes));
     }
 
-    // 3. Base cases (EmptySet, Epsilon, CharNode, Variable) are leaves
+    // 4. Base cases (EmptySet, Epsilon, CharNode, Variable) are leaves
     return term;
 }
 
-function simplify(t: RegExp): RegExp {
-    const rules = getRules();
-    let current = t;
+/**
+ * The fixpoint iteration behind simplify and simplifyWithTrace. If `steps`
+ * is given, every rewrite and every normalization is recorded there. The
+ * rewrites of one pass of simplifyOnce happen at disjoint positions, so
+ * they are replayed one after the other.
+ */
+function rewriteToFixpoint(t: RegExp, rules: Rule[], steps?: RewriteStep[]): RegExp {
+    const normalizeStep = (r: RegExp): RegExp => {
+        const n = normalize(r);
+        if (steps && !deepEquals(r, n)) steps.push({ rule: null, path: [], before: r, after: n });
+        return n;
+    };
+
+    let current = normalizeStep(t);
     let iterations = 0;
     const MAX = 1000;
 
     // Fixed-Point Iteration
     while (true) {
-        const next = simplifyOnce(current, rules);
-        if (deepEquals(current, next)) return next;
+        // the redexes are only collected if they are recorded
+        const redexes: Redex[] = [];
+        const next = simplifyOnce(current, rules, [], steps && redexes);
+        let term = current;
+        for (const { rule, path, result } of redexes) {
+            const after = replaceAt(term, path, result);
+            steps?.push({ rule, path, before: term, after });
+            term = after;
+        }
+        const normalized = normalizeStep(next);
+        if (deepEquals(current, normalized)) return normalized;
 
-        current = next;
+        current = normalized;
         if (++iterations > MAX) {
             console.warn("Rewrite limit reached");
             return current;
@@ -229,38 +387,77 @@ function simplify(t: RegExp): RegExp {
     }
 }
 
-function regexpToString(r: RegExp): string {
-    // 1. Atomic Cases
-    if (r instanceof EmptySet) return "∅";
-    if (r instanceof Epsilon) return "ε";
-    if (r instanceof CharNode) return r.value;
-    if (r instanceof Variable) return r.name;
-
-    if (r instanceof Star) {
-        const inner = regexpToString(r.inner);
-        
-        const isAtomic = 
-            r.inner instanceof CharNode || 
-            r.inner instanceof Variable || 
-            r.inner instanceof EmptySet ||
-            r.inner instanceof Epsilon;
-            
-        return isAtomic ? `${inner}*` : `(${inner})*`;
-    }
+/**
+ * Rewrites t until no rule applies. Every intermediate term is kept in
+ * AC normal form, so the result does not depend on how t was bracketed
+ * or in which order its summands were written. By default the built-in
+ * rules of getRules are used.
+ */
+function simplify(t: RegExp, rules: Rule[] = getRules()): RegExp {
+    return rewriteToFixpoint(t, rules);
+}
 
-    if (r instanceof Concat) {
-        return regexpToString(r.left) + regexpToString(r.right);
-    }
+// ============================================================================
+// 6. DERIVATIONS
+// ============================================================================
 
-    if (r instanceof Union) {
-        return `(${regexpToString(r.left)}+${regexpToString(r.right)})`;
+/**
+ * One step of a derivation: the subterm at `path` of `before` is rewritten
+ * with `rule`, and the result is the subterm at `path` of `after`. A step
+ * without a rule brings the whole term into AC normal form.
+ */
+type RewriteStep = {
+    rule: Rule | null;
+    path: Path;
+    before: RegExp;
+    after: RegExp;
+};
+
+function subtermAt(r: RegExp, path: Path): RegExp {
+    let current = r;
+    for (const i of path) {
+        if (current instanceof Star) current = current.inner;
+        else if (current instanceof Concat || current instanceof Union) current = i === 0 ? current.left : current.right;
+        else throw new Error(`Invalid path ${path.join(".")} in ${regexpToString(r)}`);
     }
+    return current;
+}
 
-    return "?";
+function replaceAt(r: RegExp, path: Path, s: RegExp): RegExp {
+    if (path.length === 0) return s;
+    const [i, ...rest] = path;
+    if (r instanceof Star) return new Star(replaceAt(r.inner, rest, s));
+    if (r instanceof Concat)
+        return i === 0 ? new Concat(replaceAt(r.left, rest, s), r.right) : new Concat(r.left, replaceAt(r.right, rest, s));
+    if (r instanceof Union)
+        return i === 0 ? new Union(replaceAt(r.left, rest, s), r.right) : new Union(r.left, replaceAt(r.right, rest, s));
+    throw new Error(`Invalid path ${path.join(".")} in ${regexpToString(r)}`);
 }
 
+/** Like simplify, but also returns every single rewrite step. */
+function simplifyWithTrace(t: RegExp, rules: Rule[] = getRules()): { result: RegExp; steps: RewriteStep[] } {
+    const steps: RewriteStep[] = [];
+    const result = rewriteToFixpoint(t, rules, steps);
+    return { result, steps };
+}
+
+/**
+ * The course notation with as few parentheses as possible, so that parse
+ * gives back the same tree. See RegExp-Printer for the other styles.
+ */
+function regexpToString(r: RegExp): string {
+    return printRegExp(r);
+}
 
 export {
+    Rule,
+    getRules,
     simplify,
+    simplifyWithTrace,
+    RewriteStep,
+    Path,
+    subtermAt,
+    normalize,
+    compareRegExp,
     regexpToString
 }
\ No newline at end of file
@@ -0,0 +1,273 @@
+import { Structural, Value, RecursiveSet, RecursiveMap, Tuple } from "recursive-set";
+import { NFA, DFA, DFAState, GenericDFA, State, Char, TransRel } from "./01-NFA-2-DFA";
+import { AutomatonFormatError, StateReader, primitiveState, setOf, structuralState } from "./FSM-JSON";
+
+/*
+ * Reads the text format printed by dfa2string and nfa2string:
+ *
+ *     states: {S0, ..., S2}
+ *
+ *     start state: S0
+ *
+ *     state encoding:
+ *     S0 = {1, 2}
+ *     ...
+ *
+ *     transitions:
+ *     δ(S0, a) = S1
+ *     ...
+ *
+ *     set of accepting states: {S1, S2}
+ *
+ * In an NFA the targets are sets, δ(1, a) = {2, 3}, ε-transitions are
+ * written as δ(1, ε) = {2}, and there is no state encoding. Blank lines
+ * are ignored. The states may be listed either one by one or as a range
+ * S0, ..., Sn. Errors are reported as AutomatonFormatError whose path is
+ * the line number.
+ *
+ * string2dfa expects the encodings of nfa2dfa, sets of NFA states.
+ * string2genericDFA also reads nested encodings such as S0 = {{1}, {2}}
+ * from minimize and pairs S0 = ({1}, {2}) from the product construction.
+ *
+ * The format does not list Σ. Unless it is passed explicitly, Σ consists
+ * of the characters that occur in the transitions.
+ */
+
+type Line = { at: string };
+
+type Parsed = {
+    states: Line & { names: string[] };
+    start: Line & { name: string };
+    accepting: Line & { names: string[] };
+    encoding: (Line & { name: string; value: string })[];
+    transitions: (Line & { from: string; c: Char; to: string })[];
+};
+
+const fail = (at: string, detail: string): never => {
+    throw new AutomatonFormatError(at, detail);
+};
+
+function splitList(s: string): string[] {
+    return s.trim() === "" ? [] : s.split(",").map(x => x.trim());
+}
+
+// Expands "S0, ..., S3" into S0, S1, S2, S3.
+function expandRange(names: string[], at: string): string[] {
+    if (names.length !== 3 || names[1] !== "...") return names;
+    const first = /^(.*?)(\d+)$/.exec(names[0]);
+    const last = /^(.*?)(\d+)$/.exec(names[2]);
+    if (!first || !last || first[1] !== last[1]) {
+        return fail(at, `cannot expand the range ${names.join(", ")}`);
+    }
+    const result: string[] = [];
+    for (let i = Number(first[2]); i <= Number(last[2]); i++) result.push(`${first[1]}${i}`);
+    return result;
+}
+
+function parseLines(text: string): Parsed {
+    let states: Parsed["states"] | undefined;
+    let start: Parsed["start"] | undefined;
+    let accepting: Parsed["accepting"] | undefined;
+    const encoding: Parsed["encoding"] = [];
+    const transitions: Parsed["transitions"] = [];
+    let section: "encoding" | "transitions" | undefined;
+    let m: RegExpExecArray | null;
+
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const at = `line ${i + 1}`;
+        const line = lines[i].trim();
+        if (line === "") continue;
+
+        if ((m = /^states:\s*\{(.*)\}$/.exec(line))) {
+            if (states) fail(at, "the states are already listed in " + states.at);
+            states = { at, names: expandRange(splitList(m[1]), at) };
+            section = undefined;
+        } else if ((m = /^start state:\s*(\S+)$/.exec(line))) {
+            if (start) fail(at, "the start state is already given in " + start.at);
+            start = { at, name: m[1] };
+            section = undefined;
+        } else if ((m = /^set of accepting states:\s*\{(.*)\}$/.exec(line))) {
+            if (accepting) fail(at, "the accepting states are already listed in " + accepting.at);
+            accepting = { at, names: splitList(m[1]) };
+            section = undefined;
+        } else if (line === "state encoding:") {
+            section = "encoding";
+        } else if (line === "transitions:") {
+            section = "transitions";
+        } else if (section === "transitions" && (m = /^δ\(\s*([^,\s]+)\s*,\s*(\S+)\s*\)\s*=\s*(.+)$/.exec(line))) {
+            transitions.push({ at, from: m[1], c: m[2], to: m[3].trim() });
+        } else if (section === "encoding" && (m = /^(\S+)\s*=\s*(.+)$/.exec(line))) {
+            encoding.push({ at, name: m[1], value: m[2].trim() });
+        } else {
+            fail(at, `unexpected line "${line}"`);
+        }
+    }
+
+    const end = `line ${lines.length}`;
+    return {
+        states: states ?? fail(end, `missing "states: {...}"`),
+        start: start ?? fail(end, `missing "start state: ..."`),
+        accepting: accepting ?? fail(end, `missing "set of accepting states: {...}"`),
+        encoding,
+        transitions,
+    };
+}
+
+// The alphabet of the transitions, checked against Sigma if it is given.
+function alphabet(p: Parsed, Sigma: RecursiveSet<Char> | undefined): RecursiveSet<Char> {
+    const Σ = new RecursiveSet<Char>();
+    for (const { at, c } of p.transitions) {
+        if (c === "ε") continue;
+        if (Sigma && !Sigma.has(c)) fail(at, `${c} is not an element of the alphabet ${Sigma}`);
+        Σ.add(c);
+    }
+    return Sigma ?? Σ;
+}
+
+// ============================================================================
+// 1. NFA
+// ============================================================================
+
+// NFA states are numbers if they look like numbers, and strings otherwise.
+const toState = (name: string): State => (/^-?\d+$/.test(name) ? Number(name) : name);
+
+function string2nfa(text: string, Sigma?: RecursiveSet<Char>): NFA {
+    const p = parseLines(text);
+    const Q = new RecursiveSet<State>();
+    for (const name of p.states.names) {
+        if (Q.has(toState(name))) fail(p.states.at, `duplicate state ${name}`);
+        Q.add(toState(name));
+    }
+    const known = (name: string, at: string): State =>
+        Q.has(toState(name)) ? toState(name) : fail(at, `unknown state ${name}`);
+
+    const δ: TransRel = new RecursiveMap<Tuple<[State, Char]>, RecursiveSet<State>>();
+    for (const { at, from, c, to } of p.transitions) {
+        const m = /^\{(.*)\}$/.exec(to) ?? fail(at, `expected a set of states, found "${to}"`);
+        const key = new Tuple(known(from, at), c);
+        if (δ.get(key) !== undefined) fail(at, `δ(${from}, ${c}) is defined twice`);
+        δ.set(key, new RecursiveSet<State>(...splitList(m[1]).map(name => known(name, at))));
+    }
+
+    return {
+        Q,
+        Σ: alphabet(p, Sigma),
+        δ,
+        q0: known(p.start.name, p.start.at),
+        A: new RecursiveSet<State>(...p.accepting.names.map(name => known(name, p.accepting.at))),
+    };
+}
+
+// ============================================================================
+// 2. DFA
+// ============================================================================
+
+/**
+ * Reads a state encoding as dfa2string prints it: numbers and names, sets
+ * {x, y} and tuples (x, y), nested arbitrarily. ∅ is the empty set.
+ */
+function parseEncoding(text: string, at: string): Value {
+    let i = 0;
+    const spaces = () => { while (text[i] === " ") i++; };
+    const error = (expected: string): never =>
+        fail(at, `expected ${expected} at column ${i + 1} of the encoding ${text}`);
+
+    const value = (): Value => {
+        spaces();
+        const open = text[i];
+        if (open === "∅") {
+            i++;
+            return new RecursiveSet<Value>();
+        }
+        if (open === "{" || open === "(") {
+            const close = open === "{" ? "}" : ")";
+            const elements: Value[] = [];
+            i++;
+            spaces();
+            if (text[i] !== close) {
+                elements.push(value());
+                for (spaces(); text[i] === ","; spaces()) {
+                    i++;
+                    elements.push(value());
+                }
+            }
+            if (text[i] !== close) error(`',' or '${close}'`);
+            i++;
+            return open === "{" ? new RecursiveSet<Value>(...elements) : new Tuple(...elements);
+        }
+        const name = /^[^\s{}(),∅]+/.exec(text.slice(i)) ?? error("a state, '{' or '('");
+        i += name[0].length;
+        return toState(name[0]);
+    };
+
+    const v = value();
+    spaces();
+    if (i < text.length) error("the end");
+    return v;
+}
+
+/**
+ * Without a state encoding, the state named S0 is read as {S0}.
+ * Missing transitions are allowed; use complete() to make the DFA total.
+ */
+function loadDFA<S extends Structural>(
+    text: string,
+    Sigma: RecursiveSet<Char> | undefined,
+    readState: StateReader<S>
+): GenericDFA<S> {
+    const p = parseLines(text);
+    const byName = new Map<string, S>();
+    for (const name of p.states.names) {
+        if (byName.has(name)) fail(p.states.at, `duplicate state ${name}`);
+        byName.set(name, readState(new RecursiveSet<Value>(name), p.states.at));
+    }
+    if (p.encoding.length > 0) {
+        const Q = new RecursiveSet<S>();
+        for (const { at, name, value } of p.encoding) {
+            if (!byName.has(name)) fail(at, `unknown state ${name}`);
+            const q = readState(parseEncoding(value, at), at);
+            if (Q.has(q)) fail(at, `the encoding ${value} is used twice`);
+            Q.add(q);
+            byName.set(name, q);
+        }
+        const missing = p.states.names.find(name => !p.encoding.some(e => e.name === name));
+        if (missing !== undefined) fail(p.encoding[0].at, `no encoding for ${missing}`);
+    }
+    const known = (name: string, at: string): S => byName.get(name) ?? fail(at, `unknown state ${name}`);
+
+    const δ = new RecursiveMap<Tuple<[S, Char]>, S>();
+    for (const { at, from, c, to } of p.transitions) {
+        if (c === "ε") fail(at, "a DFA has no ε-transitions");
+        const key = new Tuple(known(from, at), c);
+        if (δ.get(key) !== undefined) fail(at, `δ(${from}, ${c}) is defined twice`);
+        δ.set(key, known(to, at));
+    }
+
+    return {
+        Q: new RecursiveSet<S>(...byName.values()),
+        Σ: alphabet(p, Sigma),
+        δ,
+        q0: known(p.start.name, p.start.at),
+        A: new RecursiveSet<S>(...p.accepting.names.map(name => known(name, p.accepting.at))),
+    };
+}
+
+/** The states have to be encoded as sets of NFA states, as produced by nfa2dfa. */
+function string2dfa(text: string, Sigma?: RecursiveSet<Char>): DFA {
+    return loadDFA<DFAState>(text, Sigma, setOf(primitiveState));
+}
+
+/**
+ * The states may be encoded as arbitrary sets and tuples, e.g. the sets
+ * of sets of minimize or the pairs of a product automaton.
+ */
+function string2genericDFA(text: string, Sigma?: RecursiveSet<Char>): GenericDFA<Structural> {
+    return loadDFA<Structural>(text, Sigma, structuralState);
+}
+
+export {
+    string2nfa,
+    string2dfa,
+    string2genericDFA
+}
@@ -0,0 +1,110 @@
+import { RecursiveSet, RecursiveMap, Tuple } from "recursive-set";
+import { NFA, DFA, DFAState, State, Char, SubsetEvent, nfa2dfa } from "./01-NFA-2-DFA";
+import { dfa2dot, nfa2dot } from "./FSM-2-Dot";
+
+// ============================================================================
+// 1. TRACED SUBSET CONSTRUCTION
+// ============================================================================
+
+/**
+ * A step of nfa2dfa together with the partial DFA as it looks after the
+ * step. The target of a "delta" step is already a state of this DFA, even
+ * if it is discovered only in the following step.
+ */
+type SubsetStep = SubsetEvent & { dfa: DFA };
+
+type SubsetTrace = {
+    steps: SubsetStep[];
+    result: DFA;
+};
+
+/** Records the steps of nfa2dfa. */
+function traceNfa2dfa(nfa: NFA): SubsetTrace {
+    const steps: SubsetStep[] = [];
+    const Q = new RecursiveSet<DFAState>();
+    const δ_DFA = new RecursiveMap<Tuple<[DFAState, Char]>, DFAState>();
+    const accepting = new RecursiveSet<DFAState>();
+    let start = new RecursiveSet<State>();
+
+    const snapshot = (): DFA => ({
+        Q: new RecursiveSet(...Q),
+        Σ: nfa.Σ,
+        δ: δ_DFA.mutableCopy(),
+        q0: start,
+        A: new RecursiveSet(...accepting),
+    });
+    const addState = (M: DFAState) => {
+        Q.add(M);
+        if (!M.intersection(nfa.A).isEmpty()) accepting.add(M);
+    };
+
+    const result = nfa2dfa(nfa, {
+        onStep: event => {
+            if (event.kind === "delta") {
+                addState(event.to);
+                δ_DFA.set(new Tuple(event.from, event.c), event.to);
+            } else {
+                if (event.kind === "start") start = event.state;
+                addState(event.state);
+            }
+            steps.push({ ...event, dfa: snapshot() });
+        },
+    });
+    return { steps, result };
+}
+
+// ============================================================================
+// 2. RENDERING
+// ============================================================================
+
+type SubsetFrame = {
+    caption: string;
+    nfaDot: string;
+    dfaDot: string;
+};
+
+/**
+ * Renders one step as a pair of DOT graphs. In the NFA the states of the
+ * current subset are filled; for a "delta" step these are the states of
+ * Δ(from, c), and the c-transitions leaving `from` are drawn bold. In the
+ * partial DFA the current state and, if any, the new transition are
+ * highlighted.
+ */
+function renderSubsetStep(nfa: NFA, step: SubsetStep): SubsetFrame {
+    if (step.kind === "delta") {
+        const { from, c, to, dfa } = step;
+        const used = new RecursiveSet<Tuple<[State, Char, State]>>();
+        for (const p of from) {
+            for (const q of nfa.δ.get(new Tuple(p, c)) ?? []) used.add(new Tuple(p, c, q));
+        }
+        return {
+            caption: `Δ(${from}, ${c}) = ${to}`,
+            nfaDot: nfa2dot(nfa, { highlightStates: to, highlightEdges: used }),
+            dfaDot: dfa2dot(dfa, {
+                highlightStates: new RecursiveSet(to),
+                highlightEdges: new RecursiveSet(new Tuple(from, c, to)),
+            }),
+        };
+    }
+    const caption = step.kind === "start"
+        ? `start state: ε-closure(${nfa.q0}) = ${step.state}`
+        : `new state: ${step.state}`;
+    return {
+        caption,
+        nfaDot: nfa2dot(nfa, { highlightStates: step.state }),
+        dfaDot: dfa2dot(step.dfa, { highlightStates: new RecursiveSet(step.state) }),
+    };
+}
+
+function renderSubsetTrace(nfa: NFA, trace: SubsetTrace): SubsetFrame[] {
+    return trace.steps.map(step => renderSubsetStep(nfa, step));
+}
+
+export {
+    SubsetStep,
+    SubsetTrace,
+    SubsetFrame,
+    traceNfa2dfa,
+    renderSubsetStep,
+    renderSubsetTrace
+}
@@ -0,0 +1,263 @@
+import { Structural, RecursiveSet, RecursiveMap, Tuple } from "recursive-set";
+import { NFA, DFAState, State, Char, TransRel, nfa2dfa, SubsetOptions } from "./01-NFA-2-DFA";
+import { minimize, MinState, MinimizeOptions } from "./07-Minimize";
+import { GenericDFA, DotOptions, dfa2dot } from "./FSM-2-Dot";
+
+// ============================================================================
+// 1. CHARACTER CLASSES
+// ============================================================================
+
+type Range = readonly [number, number];
+
+const MAX_CODE_POINT = 0x10ffff;
+
+const codePoint = (c: Char): number => {
+    if (Array.from(c).length !== 1) throw new Error(`${c} is not a single character`);
+    return c.codePointAt(0)!;
+};
+
+// Characters that would be ambiguous or invisible inside [...].
+function showCodePoint(code: number): string {
+    if (code < 0x20 || code === 0x7f) return `\\x${("0" + code.toString(16)).slice(-2)}`;
+    const c = String.fromCodePoint(code);
+    return "\\]-^[".includes(c) ? `\\${c}` : c;
+}
+
+/**
+ * A set of characters, stored as sorted, disjoint and non-adjacent ranges
+ * of code points. This keeps classes like [a-z] or "all of Unicode" small.
+ */
+class CharClass {
+    private constructor(readonly ranges: readonly Range[]) {}
+
+    static of(ranges: Range[]): CharClass {
+        const sorted = ranges.filter(([lo, hi]) => lo <= hi).sort((a, b) => a[0] - b[0]);
+        const merged: [number, number][] = [];
+        for (const [lo, hi] of sorted) {
+            const last = merged[merged.length - 1];
+            if (last && lo <= last[1] + 1) last[1] = Math.max(last[1], hi);
+            else merged.push([lo, hi]);
+        }
+        return new CharClass(merged);
+    }
+
+    static readonly empty = CharClass.of([]);
+    static readonly all = CharClass.of([[0, MAX_CODE_POINT]]);
+
+    /** [from-to] */
+    static range(from: Char, to: Char): CharClass {
+        return CharClass.of([[codePoint(from), codePoint(to)]]);
+    }
+
+    /** The characters of the string s, e.g. CharClass.chars("aeiou"). */
+    static chars(s: string): CharClass {
+        return CharClass.of(Array.from(s).map((c): Range => [codePoint(c), codePoint(c)]));
+    }
+
+    static union(classes: CharClass[]): CharClass {
+        return CharClass.of(([] as Range[]).concat(...classes.map(C => C.ranges)));
+    }
+
+    hasCodePoint(code: number): boolean {
+        return this.ranges.some(([lo, hi]) => lo <= code && code <= hi);
+    }
+
+    has(c: Char): boolean {
+        return this.hasCodePoint(codePoint(c));
+    }
+
+    isEmpty(): boolean {
+        return this.ranges.length === 0;
+    }
+
+    union(other: CharClass): CharClass {
+        return CharClass.union([this, other]);
+    }
+
+    intersection(other: CharClass): CharClass {
+        const result: Range[] = [];
+        let i = 0, j = 0;
+        while (i < this.ranges.length && j < other.ranges.length) {
+            const [lo1, hi1] = this.ranges[i];
+            const [lo2, hi2] = other.ranges[j];
+            const lo = Math.max(lo1, lo2), hi = Math.min(hi1, hi2);
+            if (lo <= hi) result.push([lo, hi]);
+            if (hi1 < hi2) i++;
+            else j++;
+        }
+        return CharClass.of(result);
+    }
+
+    /** The characters of `universe` that are not in this class. */
+    complement(universe: CharClass = CharClass.all): CharClass {
+        const gaps: Range[] = [];
+        let next = 0;
+        for (const [lo, hi] of this.ranges) {
+            if (next < lo) gaps.push([next, lo - 1]);
+            next = hi + 1;
+        }
+        if (next <= MAX_CODE_POINT) gaps.push([next, MAX_CODE_POINT]);
+        return CharClass.of(gaps).intersection(universe);
+    }
+
+    difference(other: CharClass): CharClass {
+        return this.intersection(other.complement());
+    }
+
+    isSubset(other: CharClass): boolean {
+        return this.difference(other).isEmpty();
+    }
+
+    equals(other: CharClass): boolean {
+        return this.toString() === other.toString();
+    }
+
+    /** a single character as itself, everything else like [a-z0-9_] */
+    toString(): string {
+        if (this.isEmpty()) return "∅";
+        if (this.ranges.length === 1 && this.ranges[0][0] === this.ranges[0][1]) {
+            return String.fromCodePoint(this.ranges[0][0]);
+        }
+        const parts = this.ranges.map(([lo, hi]) =>
+            lo === hi ? showCodePoint(lo)
+            : lo + 1 === hi ? showCodePoint(lo) + showCodePoint(hi)
+            : `${showCodePoint(lo)}-${showCodePoint(hi)}`);
+        return `[${parts.join("")}]`;
+    }
+}
+
+/**
+ * Splits `universe` into the coarsest partition such that every class in
+ * `classes` is a union of blocks. Two characters end up in the same block,
+ * a minterm, iff no class can tell them apart. The minterms are sorted by
+ * their smallest character.
+ */
+function minterms(classes: CharClass[], universe: CharClass = CharClass.all): CharClass[] {
+    const points = new Set<number>();
+    for (const C of [universe, ...classes]) {
+        for (const [lo, hi] of C.ranges) {
+            points.add(lo);
+            points.add(hi + 1);
+        }
+    }
+    const sorted = [...points].sort((a, b) => a - b);
+
+    // the ranges between two consecutive boundaries are grouped by the
+    // classes they belong to
+    const blocks = new Map<string, Range[]>();
+    for (let i = 0; i + 1 < sorted.length; i++) {
+        const lo = sorted[i], hi = sorted[i + 1] - 1;
+        if (!universe.hasCodePoint(lo)) continue;
+        const signature = classes.map(C => (C.hasCodePoint(lo) ? "1" : "0")).join("");
+        blocks.set(signature, [...(blocks.get(signature) ?? []), [lo, hi]]);
+    }
+    return [...blocks.values()].map(ranges => CharClass.of(ranges));
+}
+
+// ============================================================================
+// 2. SYMBOLIC AUTOMATA
+// ============================================================================
+
+/** A transition labelled with a character class, or an ε-transition if the guard is null. */
+type SymbolicEdge = {
+    from: State;
+    guard: CharClass | null;
+    to: State;
+};
+
+/**
+ * An NFA whose alphabet Σ and transitions are character classes instead
+ * of explicit characters.
+ */
+type SymbolicNFA = {
+    Q: RecursiveSet<State>;
+    Σ: CharClass;
+    edges: SymbolicEdge[];
+    q0: State;
+    A: RecursiveSet<State>;
+};
+
+/**
+ * A DFA over the minterms of a symbolic NFA. Its alphabet consists of the
+ * names of the minterms, so every algorithm for ordinary DFAs works on it
+ * unchanged; `classes` maps the names back to the character classes.
+ */
+type SymbolicDFA<S extends Structural> = {
+    dfa: GenericDFA<S>;
+    classes: Map<Char, CharClass>;
+};
+
+/**
+ * Replaces every guard by the minterms it contains. Since the minterms
+ * are disjoint, the result is an ordinary NFA whose characters are the
+ * names m0, m1, ... of the minterms. The minterms are not named after
+ * their characters, since a minterm for the character ε would be
+ * mistaken for an ε-transition.
+ */
+function mintermNFA(snfa: SymbolicNFA): { nfa: NFA; classes: Map<Char, CharClass> } {
+    const guards = snfa.edges.map(e => e.guard).filter((g): g is CharClass => g !== null);
+    const blocks = minterms(guards, snfa.Σ);
+    const classes = new Map<Char, CharClass>(blocks.map((m, i): [Char, CharClass] => [`m${i}`, m]));
+
+    const δ: TransRel = new RecursiveMap<Tuple<[State, Char]>, RecursiveSet<State>>();
+    const addEdge = (p: State, c: Char, q: State) => {
+        const key = new Tuple(p, c);
+        δ.set(key, (δ.get(key) ?? new RecursiveSet<State>()).union(new RecursiveSet<State>(q)));
+    };
+    for (const { from, guard, to } of snfa.edges) {
+        if (guard === null) addEdge(from, "ε", to);
+        else for (const [name, m] of classes) if (m.isSubset(guard)) addEdge(from, name, to);
+    }
+
+    const nfa: NFA = {
+        Q: snfa.Q,
+        Σ: new RecursiveSet<Char>(...classes.keys()),
+        δ,
+        q0: snfa.q0,
+        A: snfa.A,
+    };
+    return { nfa, classes };
+}
+
+function symbolicNfa2dfa(snfa: SymbolicNFA, options: SubsetOptions = {}): SymbolicDFA<DFAState> {
+    const { nfa, classes } = mintermNFA(snfa);
+    return { dfa: nfa2dfa(nfa, options), classes };
+}
+
+function symbolicMinimize(sdfa: SymbolicDFA<DFAState>, options: MinimizeOptions = {}): SymbolicDFA<MinState> {
+    return { dfa: minimize(sdfa.dfa, options), classes: sdfa.classes };
+}
+
+function symbolicAccepts<S extends Structural>(sdfa: SymbolicDFA<S>, w: string): boolean {
+    const F = sdfa.dfa;
+    let q: S | undefined = F.q0;
+    for (const c of Array.from(w)) {
+        let name: Char | undefined;
+        for (const [n, m] of sdfa.classes) if (m.has(c)) name = n;
+        q = name === undefined || q === undefined ? undefined : F.δ.get(new Tuple(q, name));
+        if (q === undefined) return false;
+    }
+    return F.A.has(q);
+}
+
+/**
+ * Draws the DFA with one edge per pair of states, labelled with the union
+ * of the minterms on it, e.g. [a-z] instead of 26 edges.
+ */
+function symbolicDfa2dot<S extends Structural>(sdfa: SymbolicDFA<S>, options: DotOptions<S> = {}): string {
+    const edgeLabel = (names: Char[]) => CharClass.union(names.map(n => sdfa.classes.get(n)!)).toString();
+    return dfa2dot(sdfa.dfa, { ...options, edgeLabel });
+}
+
+export {
+    CharClass,
+    minterms,
+    SymbolicEdge,
+    SymbolicNFA,
+    SymbolicDFA,
+    mintermNFA,
+    symbolicNfa2dfa,
+    symbolicMinimize,
+    symbolicAccepts,
+    symbolicDfa2dot
+}